@@ -1,96 +1,1093 @@
-import { TokenDatabase } from './types/TokenDatabase';
+import { IMetadataStore } from './types/IMetadataStore';
 import { IContractService } from './types/IContractService';
-import { Network, Slug } from './types/_';
+import { Address, Network, Slug } from './types/_';
 import { ethers } from 'ethers';
 import { ApiConfig } from './types/ApiConfig';
-import { get, set } from 'lodash';
+import { get, set, uniq } from 'lodash';
+import { CollectionConfig } from './types/CollectionConfig';
+import { RevealStrategy } from './types/RevealStrategy';
+import { ExistenceStrategy } from './types/ExistenceStrategy';
+import Semaphore from './rpc/Semaphore';
+import CallBatcher from './rpc/CallBatcher';
+import { createProvider } from './rpc/createProvider';
+import { classifyError, withRetry } from './rpc/classifyError';
+import { HttpError, InvalidTotalSupplyResponse } from './errors';
+import {
+  CachedChainState,
+  ChainStateValue,
+  IChainStateCache,
+} from './types/IChainStateCache';
+import { ChainReads } from './types/ChainReads';
+import LruChainStateCache from './cache/LruChainStateCache';
 
 export const abi = ['function ownerOf(uint256) view returns (address)'];
 
+export const erc1155Abi = {
+  totalSupply: ['function totalSupply(uint256) view returns (uint256)'],
+  exists: ['function exists(uint256) view returns (bool)'],
+};
+
+export const defaultRevealMethod = 'revealed';
+export const defaultRevealEvent = 'Reveal()';
+export const defaultStartingIndexMethod = 'startingIndex';
+export const defaultTotalSupplyMethod = 'totalSupply';
+export const defaultMaxBlockRange = 2000;
+export const transferEvent =
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)';
+
+const revealEventName = (reveal: RevealStrategy & { type: 'event' }) =>
+  (reveal.event || defaultRevealEvent).split('(')[0];
+
+/**
+ * Consecutive ranges of at most maxRange blocks, from fromBlock to toBlock
+ */
+const toBlockRanges = (
+  fromBlock: number,
+  toBlock: number,
+  maxRange: number
+): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (let from = fromBlock; from <= toBlock; from += maxRange) {
+    ranges.push([from, Math.min(from + maxRange - 1, toBlock)]);
+  }
+  return ranges;
+};
+
+/**
+ * Tokens minted and not burned, as of the last indexed block
+ */
+type IndexedTransfers = { tokenIds: string[]; block: number };
+
+const functionName = (signature: string) =>
+  signature.replace(/^function\s+/, '').split('(')[0];
+
+const getBaseAbi = (collection?: CollectionConfig): string[] =>
+  collection?.contract.standard === 'ERC1155'
+    ? erc1155Abi[collection.contract.existsMethod || 'totalSupply']
+    : abi;
+
+/**
+ * The base abi of the token standard, extended with the functions and events the collection config
+ * and the view calls of the resolvers refer to
+ */
+export const getCollectionAbi = (
+  collection?: CollectionConfig,
+  viewCalls: string[] = []
+): string[] => {
+  const extensions: string[] = uniq(
+    [
+      ...Object.values(collection?.contractState || {}).map(
+        ({ signature }) => signature
+      ),
+      ...viewCalls,
+    ].map((signature) =>
+      signature.startsWith('function ') ? signature : `function ${signature}`
+    )
+  );
+  const reveal = collection?.reveal;
+  if (reveal?.type === 'contract') {
+    extensions.push(
+      `function ${reveal.method || defaultRevealMethod}() view returns (bool)`
+    );
+  }
+  if (reveal?.type === 'event') {
+    extensions.push(`event ${reveal.event || defaultRevealEvent}`);
+  }
+  const existence = collection?.existence;
+  if (existence?.type === 'totalSupply') {
+    extensions.push(
+      `function ${
+        existence.method || defaultTotalSupplyMethod
+      }() view returns (uint256)`
+    );
+  }
+  if (existence?.type === 'transferEvents') {
+    extensions.push(transferEvent);
+  }
+  const provenance = collection?.provenance;
+  if (provenance && provenance.startingIndex === undefined) {
+    extensions.push(
+      `function ${
+        provenance.startingIndexMethod || defaultStartingIndexMethod
+      }() view returns (uint256)`
+    );
+  }
+  const baseAbi = getBaseAbi(collection);
+  return extensions.length ? [...baseAbi, ...extensions] : baseAbi;
+};
+
 class ContractService implements IContractService {
   /**
    * Collection->Network->Contract
    */
   private _contracts: Record<Slug, Record<Network, ethers.Contract>> = {};
-  private readonly _providers: Record<Network, ethers.providers.BaseProvider> =
-    {};
-  private _existsMap: Record<
-    Slug,
-    Record<Network, Record<string, { value: boolean; timestamp: number }>>
+  /**
+   * Collection->Network->address and abi the contract was created with
+   */
+  private _contractKeys: Record<Slug, Record<Network, string>> = {};
+  private readonly _providers: Record<Network, ethers.providers.Provider> = {};
+  /**
+   * Network->limit of the concurrent calls to the provider
+   */
+  private readonly _semaphores: Record<Network, Semaphore> = {};
+  private readonly _batchers: Record<Network, CallBatcher> = {};
+  /**
+   * Collection->Network->whether the last call to the provider failed, only reported to health checks
+   */
+  private _degradedMap: Record<Slug, Record<Network, boolean>> = {};
+  /**
+   * Pending lookups by key, concurrent lookups of the same value share the promise and the reads
+   */
+  private readonly _inFlight: Record<
+    string,
+    { promise: Promise<unknown>; reads: ChainReads }
   > = {};
+  /**
+   * Existence, reveal, supply, starting index, indexed transfers and owners, keyed by the contract address as well,
+   * so state saved for a previous deployment is not reused
+   */
+  private readonly _cache: IChainStateCache;
+  /**
+   * Results of the view calls, kept in memory as they are not all JSON, like BigNumbers
+   */
+  private readonly _viewCallCache: IChainStateCache = new LruChainStateCache();
+  /**
+   * Sets of the indexed token ids, caches in memory return the same array until it is indexed again
+   */
+  private readonly _mintedSets = new WeakMap<string[], Set<string>>();
 
   constructor(
-    private readonly _database: TokenDatabase,
+    private readonly _store: IMetadataStore,
     private readonly _config: ApiConfig
   ) {
+    this._cache = this._config.cache || new LruChainStateCache();
     this._initContracts();
+    // stores changing at runtime may add, move or remove deployments
+    this._store.subscribe?.(() => this._initContracts());
   }
 
-  async exists(
+  exists(
     collectionName: Slug,
     networkName: Network,
-    tokenId: number
+    tokenId: bigint,
+    reads?: ChainReads
+  ): Promise<boolean> {
+    return this._coalesce(
+      ['exists', collectionName, networkName, tokenId.toString()],
+      (shared) => {
+        const existence = this._store.getCollection(collectionName)?.existence;
+        if (existence?.type === 'totalSupply') {
+          return this._existsBySupply(
+            collectionName,
+            networkName,
+            tokenId,
+            existence,
+            shared
+          );
+        }
+        if (existence?.type === 'transferEvents') {
+          return this._existsByEvents(
+            collectionName,
+            networkName,
+            tokenId,
+            shared
+          );
+        }
+        return this._existsByToken(
+          collectionName,
+          networkName,
+          tokenId,
+          shared
+        );
+      },
+      reads
+    );
+  }
+
+  private async _existsByToken(
+    collectionName: Slug,
+    networkName: Network,
+    tokenId: bigint,
+    reads: ChainReads
   ): Promise<boolean> {
     let timestamp = Date.now() / 1000;
+    const key = `exists:${this._contracts[collectionName][networkName].address}:${tokenId}`;
+    const saved = await this._getCached<boolean>(
+      collectionName,
+      networkName,
+      key
+    );
+    // mints are permanent, minted tokens are only looked up again if they can be burned
+    if (
+      saved &&
+      ((saved.value && !this._isBurnable(collectionName)) ||
+        saved.timestamp > timestamp - this._config.totalSupplyCacheTTlSeconds)
+    ) {
+      return saved.value;
+    }
 
-    const savedValue = get(
-      this._existsMap,
-      [collectionName, networkName, tokenId, 'value'],
-      false
+    let value = true;
+    try {
+      value = await this._fromChain(collectionName, networkName, () =>
+        this._existsOnChain(collectionName, networkName, tokenId)
+      );
+    } catch (e) {
+      console.error(
+        `Error for collection: ${collectionName}, on network: ${networkName}, for tokenId: ${tokenId}`,
+        e
+      );
+      if (classifyError(e) === 'notMinted') {
+        value = false;
+      } else {
+        ({ value, timestamp } = this._onChainError(
+          e,
+          collectionName,
+          networkName,
+          saved,
+          false,
+          reads
+        ));
+      }
+    }
+    await this._cache.set(collectionName, networkName, key, {
+      value,
+      timestamp,
+    });
+    return value;
+  }
+
+  private _isBurnable(collectionName: Slug): boolean {
+    const existence = this._store.getCollection(collectionName)?.existence;
+    return existence?.type === 'totalSupply' && Boolean(existence.burnable);
+  }
+
+  /**
+   * Whether the chain says the collection is revealed,
+   * collections without an on-chain reveal strategy are not gated by the chain
+   */
+  isRevealed(
+    collectionName: Slug,
+    networkName: Network,
+    reads?: ChainReads
+  ): Promise<boolean> {
+    return this._coalesce(
+      ['isRevealed', collectionName, networkName],
+      (shared) => this._isRevealed(collectionName, networkName, shared),
+      reads
     );
-    const savedTimestamp = get(
-      this._existsMap,
-      [collectionName, networkName, tokenId, 'timestamp'],
-      0
+  }
+
+  private async _isRevealed(
+    collectionName: Slug,
+    networkName: Network,
+    reads: ChainReads
+  ): Promise<boolean> {
+    const collection = this._store.getCollection(collectionName);
+    const reveal = collection?.reveal;
+    if (!reveal || reveal.type === 'time') {
+      return true;
+    }
+
+    let timestamp = Date.now() / 1000;
+    const key = `revealed:${this._contracts[collectionName][networkName].address}`;
+    const saved = await this._getCached<boolean>(
+      collectionName,
+      networkName,
+      key
     );
+    // reveals can not be undone, so a revealed state never expires
+    if (
+      saved &&
+      (saved.value ||
+        saved.timestamp > timestamp - this._config.totalSupplyCacheTTlSeconds)
+    ) {
+      return saved.value;
+    }
+
+    let value: boolean;
+    try {
+      const contract = this._contracts[collectionName][networkName];
+      if (reveal.type === 'contract') {
+        value = Boolean(
+          await this._fromChain(collectionName, networkName, () =>
+            this._limit(networkName, () =>
+              contract[reveal.method || defaultRevealMethod]()
+            )
+          )
+        );
+      } else {
+        value = await this._fromChain(collectionName, networkName, () =>
+          this._findRevealEvent(collectionName, networkName, reveal)
+        );
+      }
+    } catch (e) {
+      console.error(
+        `Error checking reveal for collection: ${collectionName}, on network: ${networkName}`,
+        e
+      );
+      ({ value, timestamp } = this._onChainError(
+        e,
+        collectionName,
+        networkName,
+        saved,
+        false,
+        reads
+      ));
+    }
+    await this._cache.set(collectionName, networkName, key, {
+      value,
+      timestamp,
+    });
+    return value;
+  }
+
+  /**
+   * Looks for a past reveal event block range by block range, from the start block of the deployment,
+   * then from the last block looked at
+   */
+  private async _findRevealEvent(
+    collectionName: Slug,
+    networkName: Network,
+    reveal: RevealStrategy & { type: 'event' }
+  ): Promise<boolean> {
+    const contract = this._contracts[collectionName][networkName];
+    const key = `revealBlock:${contract.address}`;
+    const searched = await this._getCached<number>(
+      collectionName,
+      networkName,
+      key
+    );
+    const fromBlock = searched
+      ? searched.value + 1
+      : this._store.getCollection(collectionName)?.contract.deployments[
+          networkName
+        ]?.startBlock || 0;
+    const toBlock = await this._limit(networkName, () =>
+      contract.provider.getBlockNumber()
+    );
+    for (const [from, to] of toBlockRanges(
+      fromBlock,
+      toBlock,
+      this._config.rpc?.maxBlockRange || defaultMaxBlockRange
+    )) {
+      const events = await this._limit(networkName, () =>
+        contract.queryFilter(
+          contract.filters[revealEventName(reveal)](),
+          from,
+          to
+        )
+      );
+      if (events.length) {
+        return true;
+      }
+      await this._cache.set(collectionName, networkName, key, {
+        value: to,
+        timestamp: Date.now() / 1000,
+      });
+    }
+    return false;
+  }
+
+  /**
+   * Starting index of the provenance shuffle, undefined until it is set on the contract
+   */
+  getStartingIndex(
+    collectionName: Slug,
+    networkName: Network,
+    reads?: ChainReads
+  ): Promise<number | undefined> {
+    return this._coalesce(
+      ['getStartingIndex', collectionName, networkName],
+      (shared) => this._getStartingIndex(collectionName, networkName, shared),
+      reads
+    );
+  }
+
+  private async _getStartingIndex(
+    collectionName: Slug,
+    networkName: Network,
+    reads: ChainReads
+  ): Promise<number | undefined> {
+    const provenance = this._store.getCollection(collectionName)?.provenance;
+    if (!provenance) {
+      return undefined;
+    }
+    if (provenance.startingIndex !== undefined) {
+      return provenance.startingIndex;
+    }
 
+    let timestamp = Date.now() / 1000;
+    const key = `startingIndex:${this._contracts[collectionName][networkName].address}`;
+    const saved = await this._getCached<number | null>(
+      collectionName,
+      networkName,
+      key
+    );
+    // once set, the starting index never changes
     if (
-      typeof savedValue === 'boolean' &&
-      savedTimestamp > timestamp - this._config.totalSupplyCacheTTlSeconds
+      saved &&
+      (saved.value !== null ||
+        saved.timestamp > timestamp - this._config.totalSupplyCacheTTlSeconds)
     ) {
-      return savedValue;
+      return saved.value ?? undefined;
     }
 
-    let value = true;
+    let value: number | null;
     try {
-      await this._contracts[collectionName][networkName].ownerOf(tokenId);
+      const startingIndex: ethers.BigNumber = await this._fromChain(
+        collectionName,
+        networkName,
+        () =>
+          this._limit(networkName, () =>
+            this._contracts[collectionName][networkName][
+              provenance.startingIndexMethod || defaultStartingIndexMethod
+            ]()
+          )
+      );
+      value = startingIndex.isZero() ? null : startingIndex.toNumber();
     } catch (e) {
       console.error(
-        `Error for collection: ${collectionName}, on network: ${networkName}, for tokenId: ${tokenId}`,
+        `Error getting starting index for collection: ${collectionName}, on network: ${networkName}`,
         e
       );
-      value = savedValue;
-      timestamp = savedTimestamp || timestamp;
+      ({ value, timestamp } = this._onChainError(
+        e,
+        collectionName,
+        networkName,
+        saved,
+        null,
+        reads
+      ));
     }
-    set(this._existsMap, [collectionName, networkName, tokenId], {
+    await this._cache.set(collectionName, networkName, key, {
       value,
       timestamp,
     });
+    return value ?? undefined;
+  }
+
+  /**
+   * Sequentially minted tokens exist below the total supply, the supply only grows,
+   * so ids below the saved supply are not looked up again
+   */
+  private async _existsBySupply(
+    collectionName: Slug,
+    networkName: Network,
+    tokenId: bigint,
+    existence: ExistenceStrategy & { type: 'totalSupply' },
+    reads: ChainReads
+  ): Promise<boolean> {
+    const minTokenId = BigInt(
+      this._store.getCollection(collectionName)?.minTokenId ?? 0
+    );
+    if (tokenId < minTokenId) {
+      return false;
+    }
+
+    let timestamp = Date.now() / 1000;
+    const key = `totalSupply:${this._contracts[collectionName][networkName].address}`;
+    // supplies are saved as decimal strings, they may not fit a number
+    const saved = await this._getCached<string>(
+      collectionName,
+      networkName,
+      key
+    );
+    let totalSupply = saved && BigInt(saved.value);
+    if (
+      totalSupply === undefined ||
+      (tokenId >= minTokenId + totalSupply &&
+        (saved?.timestamp || 0) <=
+          timestamp - this._config.totalSupplyCacheTTlSeconds)
+    ) {
+      try {
+        const value = await this._coalesce(
+          ['totalSupply', collectionName, networkName],
+          () =>
+            this._fromChain(collectionName, networkName, () =>
+              this._limit(networkName, () =>
+                this._contracts[collectionName][networkName][
+                  existence.method || defaultTotalSupplyMethod
+                ]()
+              )
+            )
+        );
+        if (!ethers.BigNumber.isBigNumber(value)) {
+          throw new InvalidTotalSupplyResponse(
+            `Invalid total supply response: ${value}`
+          );
+        }
+        totalSupply = value.toBigInt();
+      } catch (e) {
+        console.error(
+          `Error getting total supply for collection: ${collectionName}, on network: ${networkName}`,
+          e
+        );
+        let value: string;
+        ({ value, timestamp } = this._onChainError(
+          e,
+          collectionName,
+          networkName,
+          saved,
+          '0',
+          reads
+        ));
+        totalSupply = BigInt(value);
+      }
+      await this._cache.set(collectionName, networkName, key, {
+        value: totalSupply.toString(),
+        timestamp,
+      });
+    }
+
+    if (tokenId >= minTokenId + totalSupply) {
+      return false;
+    }
+    // burned tokens keep their place in the supply, but no longer have an owner
+    return existence.burnable
+      ? this._existsByToken(collectionName, networkName, tokenId, reads)
+      : true;
+  }
+
+  /**
+   * Tokens exist if they were minted and not burned, Transfer events are indexed
+   * from the start block of the deployment, then from the last indexed block on
+   */
+  private async _existsByEvents(
+    collectionName: Slug,
+    networkName: Network,
+    tokenId: bigint,
+    reads: ChainReads
+  ): Promise<boolean> {
+    const key = `minted:${this._contracts[collectionName][networkName].address}`;
+    const saved = await this._getCached<IndexedTransfers>(
+      collectionName,
+      networkName,
+      key
+    );
+    if (
+      saved &&
+      saved.timestamp >
+        Date.now() / 1000 - this._config.totalSupplyCacheTTlSeconds
+    ) {
+      return this._toMintedSet(saved.value).has(tokenId.toString());
+    }
+
+    let indexed: IndexedTransfers;
+    try {
+      indexed = await this._coalesce(
+        ['transferEvents', collectionName, networkName],
+        () =>
+          this._fromChain(collectionName, networkName, () =>
+            this._indexTransfers(collectionName, networkName, key)
+          )
+      );
+    } catch (e) {
+      console.error(
+        `Error indexing transfers for collection: ${collectionName}, on network: ${networkName}`,
+        e
+      );
+      // the blocks indexed before the failure are kept
+      const progress = await this._getCached<IndexedTransfers>(
+        collectionName,
+        networkName,
+        key
+      );
+      indexed = this._onChainError(
+        e,
+        collectionName,
+        networkName,
+        progress,
+        { tokenIds: [], block: -1 },
+        reads
+      ).value;
+    }
+    return this._toMintedSet(indexed).has(tokenId.toString());
+  }
+
+  private _toMintedSet({ tokenIds }: IndexedTransfers): Set<string> {
+    let minted = this._mintedSets.get(tokenIds);
+    if (!minted) {
+      minted = new Set(tokenIds);
+      this._mintedSets.set(tokenIds, minted);
+    }
+    return minted;
+  }
+
+  /**
+   * Indexes the blocks after the saved ones block range by block range, saving the progress after each range.
+   * Progress keeps the timestamp of the last complete index, so it is not taken for an up to date index.
+   */
+  private async _indexTransfers(
+    collectionName: Slug,
+    networkName: Network,
+    key: string
+  ): Promise<IndexedTransfers> {
+    const timestamp = Date.now() / 1000;
+    // read again, as retries continue from the progress of the failed attempt
+    const saved = await this._getCached<IndexedTransfers>(
+      collectionName,
+      networkName,
+      key
+    );
+    const contract = this._contracts[collectionName][networkName];
+    let indexed = saved?.value || {
+      tokenIds: [],
+      block:
+        (this._store.getCollection(collectionName)?.contract.deployments[
+          networkName
+        ]?.startBlock || 0) - 1,
+    };
+    const toBlock = await this._limit(networkName, () =>
+      contract.provider.getBlockNumber()
+    );
+    const minted = new Set(indexed.tokenIds);
+    const { AddressZero } = ethers.constants;
+    for (const [fromBlock, rangeEnd] of toBlockRanges(
+      indexed.block + 1,
+      toBlock,
+      this._config.rpc?.maxBlockRange || defaultMaxBlockRange
+    )) {
+      const events = (
+        await Promise.all([
+          this._limit(networkName, () =>
+            contract.queryFilter(
+              contract.filters.Transfer(AddressZero),
+              fromBlock,
+              rangeEnd
+            )
+          ),
+          this._limit(networkName, () =>
+            contract.queryFilter(
+              contract.filters.Transfer(null, AddressZero),
+              fromBlock,
+              rangeEnd
+            )
+          ),
+        ])
+      )
+        .flat()
+        .sort(
+          (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+        );
+      for (const { args } of events) {
+        const id = args?.tokenId.toString();
+        // tokens may be burned and minted again
+        if (args?.to === AddressZero) {
+          minted.delete(id);
+        } else {
+          minted.add(id);
+        }
+      }
+      indexed = { tokenIds: [...minted], block: rangeEnd };
+      if (rangeEnd < toBlock) {
+        await this._cache.set(collectionName, networkName, key, {
+          value: indexed,
+          timestamp: saved?.timestamp || 0,
+        });
+      }
+    }
+    await this._cache.set(collectionName, networkName, key, {
+      value: indexed,
+      timestamp,
+    });
+    return indexed;
+  }
+
+  /**
+   * ERC721 tokens exist if they have an owner, ERC1155 tokens if they have a supply
+   */
+  private async _existsOnChain(
+    collectionName: Slug,
+    networkName: Network,
+    tokenId: bigint
+  ): Promise<boolean> {
+    const contract = this._contracts[collectionName][networkName];
+    const batcher = this._batchers[networkName];
+    const { standard, existsMethod } =
+      this._store.getCollection(collectionName)?.contract || {};
+    if (standard !== 'ERC1155') {
+      const owner = await batcher.call<Address>(contract, 'ownerOf', [tokenId]);
+      if (this._needsOwners(collectionName)) {
+        await this._cache.set(
+          collectionName,
+          networkName,
+          `owner:${contract.address}:${tokenId}`,
+          { value: owner, timestamp: Date.now() / 1000 }
+        );
+      }
+      return true;
+    }
+    if (existsMethod === 'exists') {
+      return Boolean(await batcher.call(contract, 'exists', [tokenId]));
+    }
+    const totalSupply = await batcher.call<ethers.BigNumber>(
+      contract,
+      'totalSupply',
+      [tokenId]
+    );
+    return !totalSupply.isZero();
+  }
+
+  /**
+   * Whether the resolvers or the contract state of the collection read the owner of the token
+   */
+  private _needsOwners(collectionName: Slug): boolean {
+    const contractState =
+      this._store.getCollection(collectionName)?.contractState;
+    return (
+      Boolean(this._config.resolvers?.[collectionName]?.length) ||
+      Object.values(contractState || {}).some(({ args }) =>
+        args?.includes('{{owner}}')
+      )
+    );
+  }
+
+  /**
+   * Current holder of the token, undefined for tokens not minted and ERC1155 tokens
+   */
+  getOwner(
+    collectionName: Slug,
+    networkName: Network,
+    tokenId: bigint,
+    reads?: ChainReads
+  ): Promise<Address | undefined> {
+    return this._coalesce(
+      ['getOwner', collectionName, networkName, tokenId.toString()],
+      (shared) => this._getOwner(collectionName, networkName, tokenId, shared),
+      reads
+    );
+  }
+
+  private async _getOwner(
+    collectionName: Slug,
+    networkName: Network,
+    tokenId: bigint,
+    reads: ChainReads
+  ): Promise<Address | undefined> {
+    const collection = this._store.getCollection(collectionName);
+    if (collection?.contract.standard === 'ERC1155') {
+      return undefined;
+    }
+
+    let timestamp = Date.now() / 1000;
+    const contract = this._contracts[collectionName][networkName];
+    const key = `owner:${contract.address}:${tokenId}`;
+    const saved = await this._getCached<Address | null>(
+      collectionName,
+      networkName,
+      key
+    );
+    if (
+      saved &&
+      saved.timestamp > timestamp - this._config.totalSupplyCacheTTlSeconds
+    ) {
+      return saved.value ?? undefined;
+    }
+
+    let value: Address | null = null;
+    try {
+      value = await this._fromChain(collectionName, networkName, () =>
+        this._batchers[networkName].call<Address>(contract, 'ownerOf', [
+          tokenId,
+        ])
+      );
+    } catch (e) {
+      console.error(
+        `Error getting the owner for collection: ${collectionName}, on network: ${networkName}, for tokenId: ${tokenId}`,
+        e
+      );
+      if (classifyError(e) !== 'notMinted') {
+        ({ value, timestamp } = this._onChainError(
+          e,
+          collectionName,
+          networkName,
+          saved,
+          null,
+          reads
+        ));
+      }
+    }
+    await this._cache.set(collectionName, networkName, key, {
+      value,
+      timestamp,
+    });
+    return value ?? undefined;
+  }
+
+  /**
+   * Calls a view function of the contract, the signature has to be one of the view calls of the resolvers
+   */
+  viewCall(
+    collectionName: Slug,
+    networkName: Network,
+    signature: string,
+    args: unknown[],
+    reads?: ChainReads
+  ): Promise<unknown> {
+    const call = JSON.stringify([functionName(signature), args.map(String)]);
+    return this._coalesce(
+      ['viewCall', collectionName, networkName, call],
+      (shared) =>
+        this._viewCall(
+          collectionName,
+          networkName,
+          signature,
+          args,
+          call,
+          shared
+        ),
+      reads
+    );
+  }
+
+  private async _viewCall(
+    collectionName: Slug,
+    networkName: Network,
+    signature: string,
+    args: unknown[],
+    call: string,
+    reads: ChainReads
+  ): Promise<unknown> {
+    let timestamp = Date.now() / 1000;
+    const contract = this._contracts[collectionName][networkName];
+    const key = `viewCall:${contract.address}:${call}`;
+    const saved = (await this._viewCallCache.get(
+      collectionName,
+      networkName,
+      key
+    )) as { value: unknown; timestamp: number } | undefined;
+    if (
+      saved &&
+      saved.timestamp > timestamp - this._config.totalSupplyCacheTTlSeconds
+    ) {
+      return saved.value;
+    }
+
+    let value: unknown;
+    try {
+      value = await this._fromChain(collectionName, networkName, () =>
+        this._batchers[networkName].call(
+          contract,
+          functionName(signature),
+          args
+        )
+      );
+    } catch (e) {
+      console.error(
+        `Error calling ${signature} for collection: ${collectionName}, on network: ${networkName}`,
+        e
+      );
+      ({ value, timestamp } = this._onChainError(
+        e,
+        collectionName,
+        networkName,
+        saved,
+        undefined,
+        reads
+      ));
+    }
+    await this._viewCallCache.set(collectionName, networkName, key, {
+      value: value as ChainStateValue,
+      timestamp,
+    });
+    return value;
+  }
+
+  private async _getCached<T extends ChainStateValue>(
+    collectionName: Slug,
+    networkName: Network,
+    key: string
+  ): Promise<CachedChainState<T> | undefined> {
+    return (await this._cache.get(collectionName, networkName, key)) as
+      | CachedChainState<T>
+      | undefined;
+  }
+
+  /**
+   * Every caller of a shared lookup gets the stale reads of the lookup reported
+   */
+  private async _coalesce<T>(
+    key: string[],
+    load: (reads: ChainReads) => Promise<T>,
+    reads?: ChainReads
+  ): Promise<T> {
+    const id = JSON.stringify(key);
+    if (!this._inFlight[id]) {
+      const shared = { stale: false };
+      this._inFlight[id] = {
+        promise: load(shared).finally(() => delete this._inFlight[id]),
+        reads: shared,
+      };
+    }
+    const { promise, reads: shared } = this._inFlight[id];
+    const value = (await promise) as T;
+    if (reads && shared.stale) {
+      reads.stale = true;
+    }
+    return value;
+  }
+
+  /**
+   * Loads a value from the chain, retrying transient errors
+   */
+  private async _fromChain<T>(
+    collectionName: Slug,
+    networkName: Network,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const { retries = 0, retryDelayMs = 0 } = this._config.rpc || {};
+    const value = await withRetry(load, retries, retryDelayMs);
+    set(this._degradedMap, [collectionName, networkName], false);
     return value;
   }
 
+  /**
+   * The value served when the chain could not answer: the saved value, or the fallback.
+   * On transient errors the saved value is only served if the serve-stale policy allows it,
+   * and reported as stale, otherwise the request fails with 503.
+   */
+  private _onChainError<T>(
+    error: unknown,
+    collectionName: Slug,
+    networkName: Network,
+    saved: { value: T; timestamp: number } | undefined,
+    fallback: T,
+    reads: ChainReads
+  ): { value: T; timestamp: number } {
+    const timestamp = Date.now() / 1000;
+    if (classifyError(error) !== 'transient') {
+      return saved || { value: fallback, timestamp };
+    }
+    set(this._degradedMap, [collectionName, networkName], true);
+    const { serveStale = true, maxStaleSeconds } = this._config.rpc || {};
+    if (
+      saved &&
+      serveStale &&
+      (maxStaleSeconds === undefined ||
+        saved.timestamp > timestamp - maxStaleSeconds)
+    ) {
+      reads.stale = true;
+      return saved;
+    }
+    throw new HttpError(
+      503,
+      `Network ${networkName} is unavailable for collection ${collectionName}`
+    );
+  }
+
+  isDegraded(collectionName: Slug, networkName: Network): boolean {
+    return Boolean(get(this._degradedMap, [collectionName, networkName]));
+  }
+
+  /**
+   * Runs a call of the provider within the concurrency limit of the network,
+   * the batcher limits the calls it makes itself
+   */
+  private _limit<T>(networkName: Network, task: () => Promise<T>): Promise<T> {
+    return this._semaphores[networkName].run(task);
+  }
+
   private _initContracts() {
+    const contracts: Record<Slug, Record<Network, ethers.Contract>> = {};
+    const contractKeys: Record<Slug, Record<Network, string>> = {};
     // iterating collections in the database
-    for (const [collectionName, collection] of Object.entries(this._database)) {
+    for (const collectionName of this._store.getCollectionNames()) {
+      const collection = this._store.getCollection(collectionName);
+      const collectionAbi = getCollectionAbi(
+        collection,
+        (this._config.resolvers?.[collectionName] || []).flatMap((resolver) =>
+          Object.values(resolver.calls || {}).map(({ signature }) => signature)
+        )
+      );
       // iterating deployed contracts for the collection
       for (const [network, { address }] of Object.entries(
-        collection.contract.deployments
+        collection?.contract.deployments || {}
       )) {
         // if provider for the given network does not exist yet, create it
         if (!this._providers[network]) {
-          this._providers[network] = ethers.getDefaultProvider(
+          this._providers[network] = createProvider(
             network,
+            this._config.ethers?.networks?.[network],
             this._config.ethers?.apiKeys
           );
+          const { rpc } = this._config;
+          this._semaphores[network] = new Semaphore(rpc?.maxConcurrency || 0);
+          this._batchers[network] = new CallBatcher(
+            this._providers[network],
+            this._semaphores[network],
+            rpc
+          );
+        }
+        // reuse the contract instance if the deployment did not change,
+        // otherwise create it with the appropriate provider
+        const key = JSON.stringify([address, collectionAbi]);
+        let contract = this._contracts[collectionName]?.[network];
+        if (
+          !contract ||
+          this._contractKeys[collectionName]?.[network] !== key
+        ) {
+          contract = new ethers.Contract(
+            address,
+            collectionAbi,
+            this._providers[network]
+          );
+          this._watchReveal(collectionName, network, collection, contract);
+        }
+        set(contracts, [collectionName, network], contract);
+        set(contractKeys, [collectionName, network], key);
+      }
+    }
+    // drop cached values and listeners of the deployments that were removed or changed
+    for (const [collectionName, networks] of Object.entries(this._contracts)) {
+      for (const [network, contract] of Object.entries(networks)) {
+        if (contracts[collectionName]?.[network] !== contract) {
+          contract.removeAllListeners();
+          this._clearCache(collectionName, network);
         }
-        // create the contract instance with the appropriate provider
-        set(
-          this._contracts,
-          [collectionName, network],
-          new ethers.Contract(address, abi, this._providers[network])
-        );
       }
     }
+    this._contracts = contracts;
+    this._contractKeys = contractKeys;
+  }
+
+  /**
+   * Marks the collection revealed as soon as the reveal event is emitted
+   */
+  private _watchReveal(
+    collectionName: Slug,
+    networkName: Network,
+    collection: CollectionConfig | undefined,
+    contract: ethers.Contract
+  ) {
+    const reveal = collection?.reveal;
+    if (reveal?.type !== 'event') {
+      return;
+    }
+    contract.once(revealEventName(reveal), () =>
+      this._cache
+        .set(collectionName, networkName, `revealed:${contract.address}`, {
+          value: true,
+          timestamp: Date.now() / 1000,
+        })
+        .catch((e) =>
+          console.error(
+            `Error caching the reveal of collection: ${collectionName}, on network: ${networkName}`,
+            e
+          )
+        )
+    );
+  }
+
+  private _clearCache(collectionName: Slug, networkName: Network) {
+    Promise.all([
+      this._cache.clear(collectionName, networkName),
+      this._viewCallCache.clear(collectionName, networkName),
+    ]).catch((e) =>
+      console.error(
+        `Error clearing the cache of collection: ${collectionName}, on network: ${networkName}`,
+        e
+      )
+    );
   }
 }
 
@@ -0,0 +1,117 @@
+import { IMetadataStore } from '../types/IMetadataStore';
+import { TokenFilter } from '../types/TokenFilter';
+import { Slug } from '../types/_';
+import { applyDefaults } from './defaults';
+
+type Attribute = { trait_type?: unknown; value?: unknown };
+
+type CollectionIndex = {
+  ids: Set<string>;
+  /**
+   * Trait type->value->ids of the tokens with the trait
+   */
+  traits: Map<string, Map<string, Set<string>>>;
+  /**
+   * Trait type->ids and values of the tokens with a numeric trait
+   */
+  numbers: Map<string, [string, number][]>;
+  /**
+   * Id->lowercase name
+   */
+  names: Map<string, string>;
+};
+
+/**
+ * Indexes the traits and the names of the tokens with the defaults applied, by the ids of the store.
+ * The index is built again when the store changes.
+ */
+class SearchIndex {
+  private _collections: Record<Slug, CollectionIndex> = {};
+
+  constructor(private readonly _store: IMetadataStore) {
+    this._build();
+    this._store.subscribe?.(() => this._build());
+  }
+
+  /**
+   * Ids of the tokens matching the filter, regardless of whether they are revealed
+   */
+  search(collectionName: Slug, filter: TokenFilter): Set<string> {
+    const index = this._collections[collectionName];
+    if (!index) {
+      return new Set();
+    }
+    let matches = [...index.ids];
+    for (const [traitType, values] of Object.entries(filter.traits)) {
+      const byValue = index.traits.get(traitType);
+      matches = matches.filter((id) =>
+        values.some((value) => byValue?.get(value)?.has(id))
+      );
+    }
+    for (const [traitType, { min, max }] of Object.entries(filter.ranges)) {
+      const inRange = new Set(
+        (index.numbers.get(traitType) || [])
+          .filter(
+            ([, value]) =>
+              (min === undefined || value >= min) &&
+              (max === undefined || value <= max)
+          )
+          .map(([id]) => id)
+      );
+      matches = matches.filter((id) => inRange.has(id));
+    }
+    const name = filter.name?.toLowerCase();
+    if (name) {
+      matches = matches.filter((id) => index.names.get(id)?.includes(name));
+    }
+    return new Set(matches);
+  }
+
+  private _build() {
+    const collections: Record<Slug, CollectionIndex> = {};
+    for (const collectionName of this._store.getCollectionNames()) {
+      const defaults = this._store.getCollection(collectionName)?.defaults;
+      const index: CollectionIndex = {
+        ids: new Set(),
+        traits: new Map(),
+        numbers: new Map(),
+        names: new Map(),
+      };
+      for (const id of this._store.getTokenIds(collectionName)) {
+        const token = this._store.getToken(collectionName, id);
+        if (!token) {
+          continue;
+        }
+        const metadata = applyDefaults(defaults, token);
+        index.ids.add(id);
+        if (typeof metadata.name === 'string') {
+          index.names.set(id, metadata.name.toLowerCase());
+        }
+        const attributes = Array.isArray(metadata.attributes)
+          ? (metadata.attributes as Attribute[])
+          : [];
+        for (const attribute of attributes) {
+          const { trait_type, value } = attribute || {};
+          if (typeof trait_type !== 'string' || value === undefined) {
+            continue;
+          }
+          const byValue = index.traits.get(trait_type) || new Map();
+          index.traits.set(trait_type, byValue);
+          byValue.set(
+            String(value),
+            (byValue.get(String(value)) || new Set()).add(id)
+          );
+          if (typeof value === 'number') {
+            const numbers = index.numbers.get(trait_type) || [];
+            numbers.push([id, value]);
+            index.numbers.set(trait_type, numbers);
+          }
+        }
+      }
+      collections[collectionName] = index;
+    }
+    this._collections = collections;
+  }
+}
+
+export default SearchIndex;
@@ -1,150 +1,783 @@
 import express from 'express';
+import { ethers } from 'ethers';
 import merge from 'lodash/merge';
+import omit from 'lodash/omit';
 import { TokenDatabase } from '../types/TokenDatabase';
 import { IContractService } from '../types/IContractService';
+import { IMetadataStore } from '../types/IMetadataStore';
+import { TokenMetadata } from '../types/TokenMetadata';
+import { CollectionMetadata } from '../types/CollectionMetadata';
 import { HttpError } from '../errors';
 import { ApiConfig } from '../types/ApiConfig';
 import defaultApiConfig from './defaultApiConfig';
 import ContractService from '../ContractService';
-import { Network, Slug } from '../types/_';
+import { Network, Slug, TokenId } from '../types/_';
+import { toMetadataStore } from '../stores';
+import { ensureValidDatabase } from '../validation/validateDatabase';
+import { getArtworkId } from '../provenance/provenance';
+import { findForToken, isInRange, matchesToken } from './tokenSelectors';
+import { renderTemplate, substituteErc1155Id } from './template';
+import { getSortedTokenIds, parseTokenId, toErc1155Id } from './tokenIds';
+import { applyDefaults } from './defaults';
+import { resolveUriRewrite, rewriteUris } from './uris';
+import { applyResolvers } from './resolvers';
+import { applyContractState, omitVariants } from './contractState';
+import { computeRarityStats, getCachedRarityStats } from './rarity';
+import { RarityStats } from '../types/RarityStats';
+import SearchIndex from './SearchIndex';
+import { RevealPhase } from '../types/RevealPhase';
+import { PlaceholderVariant } from '../types/PlaceholderVariant';
+import { getTokenCachePolicy, sendCached } from './httpCache';
+import { ChainReads } from '../types/ChainReads';
+
+export type Handler = (
+  req: express.Request,
+  res: express.Response
+) => Promise<void>;
 
 export type ApiObject = {
-  handler: (req: express.Request, res: express.Response) => Promise<void>;
+  handler: Handler;
+  collectionHandler: Handler;
   contractService?: ContractService;
+  store: IMetadataStore;
+  searchIndex: SearchIndex;
 };
 
 export const api = (
-  database: TokenDatabase,
+  source: TokenDatabase | IMetadataStore,
   userConfig: Partial<ApiConfig> = {}
 ): ApiObject => {
-  const config = merge(defaultApiConfig, userConfig);
+  const config = merge({}, defaultApiConfig, userConfig);
+  const store = toMetadataStore(source);
+
+  ensureValidDatabase(store, config.validation);
+  const searchIndex = new SearchIndex(store);
 
   if (config.ethers) {
-    const contractService = new ContractService(database, config);
+    const contractService = new ContractService(store, config);
     return {
-      handler: createWithEthers(database, contractService),
+      handler: createWithEthers(store, contractService, config),
+      collectionHandler: createCollectionHandler(store, config),
       contractService,
+      store,
+      searchIndex,
     };
   }
 
   return {
-    handler: createWithoutEthers(database),
+    handler: createWithoutEthers(store, config),
+    collectionHandler: createCollectionHandler(store, config),
+    store,
+    searchIndex,
   };
 };
 
 export const defaultRoute = '/nft/:networkName/:collectionName/:tokenId';
 
+export const collectionRoute = '/nft/:networkName/:collectionName';
+
+/**
+ * Has to be mounted before the token route, tokens is not a token id
+ */
+export const tokenListRoute = '/nft/:networkName/:collectionName/tokens';
+
+/**
+ * Has to be mounted before the token route, stats is not a token id
+ */
+export const statsRoute = '/nft/:networkName/:collectionName/stats';
+
+/**
+ * Has to be mounted before the token route, search is not a token id
+ */
+export const searchRoute = '/nft/:networkName/:collectionName/search';
+
+/**
+ * Set on responses built from cached chain state, as the provider of the network failed
+ */
+export const degradedHeader = 'X-Metadata-Degraded';
+
+/**
+ * Contract service reporting the lookups made for one response into reads
+ */
+export const withReads = (
+  contractService: IContractService,
+  reads: ChainReads
+): IContractService => {
+  const { getOwner, viewCall, isDegraded } = contractService;
+  return {
+    exists: (collectionName, networkName, tokenId) =>
+      contractService.exists(collectionName, networkName, tokenId, reads),
+    isRevealed: (collectionName, networkName) =>
+      contractService.isRevealed(collectionName, networkName, reads),
+    getStartingIndex: (collectionName, networkName) =>
+      contractService.getStartingIndex(collectionName, networkName, reads),
+    ...(isDegraded && { isDegraded: isDegraded.bind(contractService) }),
+    ...(getOwner && {
+      getOwner: (collectionName, networkName, tokenId) =>
+        getOwner.call(
+          contractService,
+          collectionName,
+          networkName,
+          tokenId,
+          reads
+        ),
+    }),
+    ...(viewCall && {
+      viewCall: (collectionName, networkName, signature, args) =>
+        viewCall.call(
+          contractService,
+          collectionName,
+          networkName,
+          signature,
+          args,
+          reads
+        ),
+    }),
+  };
+};
+
 export const createWithoutEthers =
-  (database: TokenDatabase) =>
+  (store: IMetadataStore, config: ApiConfig = defaultApiConfig) =>
   async (req: express.Request, res: express.Response): Promise<void> => {
     try {
-      const { collectionName, tokenId } = extractParams(req);
-
-      ensureCollectionExists(database, collectionName);
-
-      if (
-        isCollectionRevealed(database, collectionName) &&
-        !isTokenReserved(database, collectionName, tokenId)
-      ) {
-        ensureTokenExists(database, collectionName, tokenId);
-        res.json(database[collectionName].tokens[tokenId]);
-      } else {
-        ensureTokenExists(database, collectionName, 'placeholder');
-        res.json(database[collectionName].tokens.placeholder);
-      }
+      const params = extractParams(store, req);
+      const { collectionName, tokenId } = params;
+
+      ensureTokenInBounds(store, collectionName, tokenId);
+
+      const uriRewrite = resolveUriRewrite(
+        config.uriRewrite,
+        store.getCollection(collectionName),
+        req.query
+      );
+      const artworkId = await getVisibleArtworkId(store, params);
+
+      sendCached(
+        req,
+        res,
+        rewriteUris(
+          await getServedToken(store, params, artworkId, config),
+          uriRewrite
+        ),
+        getTokenCachePolicy(store, params, artworkId, config),
+        config.httpCache
+      );
     } catch (error) {
-      res.status(error.status || 500).send({
-        error: {
-          status: error.status || 500,
-          message: error.message || 'Internal Server Error',
-        },
-      });
+      sendError(res, error);
     }
   };
 
 export const createWithEthers =
-  (database: TokenDatabase, contractService: IContractService) =>
+  (
+    store: IMetadataStore,
+    contractService: IContractService,
+    config: ApiConfig = defaultApiConfig
+  ) =>
   async (req: express.Request, res: express.Response): Promise<void> => {
     try {
-      const { collectionName, tokenId, networkName } = extractParams(req);
+      const params = extractParams(store, req);
+      const { collectionName, tokenId, networkName } = params;
+      const reads: ChainReads = { stale: false };
+      const responseContractService = withReads(contractService, reads);
 
-      ensureCollectionExists(database, collectionName);
-      ensureDeploymentNetwork(database, collectionName, networkName);
+      ensureDeploymentNetwork(store, collectionName, networkName);
+      ensureTokenInBounds(store, collectionName, tokenId);
 
-      const exists = await contractService.exists(
-        collectionName,
-        networkName,
-        tokenId
+      const uriRewrite = resolveUriRewrite(
+        config.uriRewrite,
+        store.getCollection(collectionName),
+        req.query
+      );
+      const artworkId = await getVisibleArtworkId(
+        store,
+        params,
+        responseContractService
+      );
+      const served = await getServedToken(
+        store,
+        params,
+        artworkId,
+        config,
+        responseContractService
       );
 
-      if (
-        isCollectionRevealed(database, collectionName) &&
-        !isTokenReserved(database, collectionName, tokenId) &&
-        exists
-      ) {
-        ensureTokenExists(database, collectionName, tokenId);
-        res.json(database[collectionName].tokens[tokenId]);
-      } else {
-        ensureTokenExists(database, collectionName, 'placeholder');
-        res.json(database[collectionName].tokens.placeholder);
+      if (reads.stale) {
+        res.set(degradedHeader, 'stale');
       }
+
+      sendCached(
+        req,
+        res,
+        rewriteUris(served, uriRewrite),
+        getTokenCachePolicy(
+          store,
+          params,
+          artworkId,
+          config,
+          contractService,
+          reads.stale
+        ),
+        config.httpCache
+      );
     } catch (error) {
       console.error(error.status);
-      res.status(error.status || 500).send({
-        error: {
-          status: error.status || 500,
-          message: error.message || 'Internal Server Error',
-        },
-      });
+      sendError(res, error);
     }
   };
 
+/**
+ * Artwork id of the token if it is revealed, not reserved and minted, undefined if its placeholder is served.
+ * On-chain reveals and the minted status are only checked with a contract service.
+ */
+export const getVisibleArtworkId = async (
+  store: IMetadataStore,
+  { collectionName, networkName, tokenId }: RequestParams,
+  contractService?: IContractService
+): Promise<bigint | undefined> => {
+  const provenance = store.getCollection(collectionName)?.provenance;
+  if (!contractService) {
+    const visible =
+      isCollectionRevealed(store, collectionName, tokenId) &&
+      !isTokenReserved(store, collectionName, tokenId);
+    return visible
+      ? getArtworkId(provenance, tokenId, provenance?.startingIndex)
+      : undefined;
+  }
+  const [exists, revealed, startingIndex] = await Promise.all([
+    contractService.exists(collectionName, networkName, tokenId),
+    isCollectionRevealedOnNetwork(
+      store,
+      contractService,
+      collectionName,
+      networkName,
+      tokenId
+    ),
+    provenance && contractService.getStartingIndex(collectionName, networkName),
+  ]);
+  const visible =
+    revealed && !isTokenReserved(store, collectionName, tokenId) && exists;
+  return visible ? getArtworkId(provenance, tokenId, startingIndex) : undefined;
+};
+
+/**
+ * Visible artwork ids of the tokens, looked up concurrently
+ */
+export const getVisibleArtworkIds = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  networkName: Network,
+  tokenIds: bigint[],
+  contractService?: IContractService
+): Promise<(bigint | undefined)[]> =>
+  Promise.all(
+    tokenIds.map((tokenId) =>
+      getVisibleArtworkId(
+        store,
+        { collectionName, networkName, tokenId },
+        contractService
+      )
+    )
+  );
+
+/**
+ * The served metadata of the token, with the contract state and the resolvers applied to visible tokens.
+ * Contract state is not read without a contract service, the variants are not served.
+ */
+export const getServedToken = async (
+  store: IMetadataStore,
+  params: RequestParams,
+  artworkId: bigint | undefined,
+  config: ApiConfig,
+  contractService?: IContractService
+): Promise<TokenMetadata> => {
+  const { collectionName, networkName, tokenId } = params;
+  const collection = store.getCollection(collectionName);
+  const metadata = getServedMetadata(store, params, artworkId);
+  if (artworkId !== undefined && config.rarity.inject) {
+    const stats = await getRarityStats(
+      store,
+      collectionName,
+      networkName,
+      contractService,
+      config
+    );
+    metadata[config.rarity.key] = stats.tokens[tokenId.toString()];
+  }
+  if (!contractService || artworkId === undefined) {
+    return omitVariants(collection?.contractState, metadata);
+  }
+  return applyResolvers(
+    config.resolvers?.[collectionName],
+    contractService,
+    collectionName,
+    networkName,
+    tokenId,
+    await applyContractState(
+      collection?.contractState,
+      contractService,
+      collectionName,
+      networkName,
+      tokenId,
+      metadata
+    )
+  );
+};
+
+/**
+ * Tokens whose visibility is looked up at once when computing the rarity stats
+ */
+const rarityChunkSize = 100;
+
+/**
+ * Rarity stats of the visible tokens of the collection, by the rule of getVisibleArtworkId.
+ * They are computed again when the store or the reveal state changes, and with a contract service
+ * after totalSupplyCacheTTlSeconds, as tokens are minted.
+ */
+export const getRarityStats = async (
+  store: IMetadataStore,
+  collectionName: Slug,
+  networkName: Network,
+  contractService?: IContractService,
+  config: ApiConfig = defaultApiConfig
+): Promise<RarityStats> => {
+  const collection = store.getCollection(collectionName);
+  const provenance = collection?.provenance;
+  const [startingIndex, revealed] = await Promise.all([
+    contractService && provenance
+      ? contractService.getStartingIndex(collectionName, networkName)
+      : provenance?.startingIndex,
+    contractService
+      ? isCollectionRevealedOnNetwork(
+          store,
+          contractService,
+          collectionName,
+          networkName
+        )
+      : isCollectionRevealed(store, collectionName),
+  ]);
+  const key = JSON.stringify([
+    startingIndex,
+    revealed,
+    (collection?.revealPhases || []).map(isRevealPhaseOpen),
+  ]);
+  return getCachedRarityStats(
+    store,
+    collectionName,
+    networkName,
+    key,
+    contractService ? config.totalSupplyCacheTTlSeconds : Infinity,
+    async () => {
+      const tokenIds = getSortedTokenIds(store, collectionName);
+      const tokens: [string, TokenMetadata][] = [];
+      // lookups of a chunk overlap, so they are batched into multicalls
+      for (let index = 0; index < tokenIds.length; index += rarityChunkSize) {
+        const chunk = tokenIds.slice(index, index + rarityChunkSize);
+        const artworkIds = await getVisibleArtworkIds(
+          store,
+          collectionName,
+          networkName,
+          chunk,
+          contractService
+        );
+        for (const [i, tokenId] of chunk.entries()) {
+          const token =
+            artworkIds[i] !== undefined &&
+            store.getToken(collectionName, String(artworkIds[i]));
+          if (token) {
+            tokens.push([
+              tokenId.toString(),
+              applyDefaults(collection?.defaults, token),
+            ]);
+          }
+        }
+      }
+      return computeRarityStats(tokens);
+    }
+  );
+};
+
+export const createStatsHandler =
+  (
+    store: IMetadataStore,
+    contractService?: IContractService,
+    config: ApiConfig = defaultApiConfig
+  ) =>
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const { collectionName, networkName } = req.params;
+
+      ensureCollectionExists(store, collectionName);
+      ensureKnownNetwork(store, networkName);
+      if (contractService) {
+        ensureDeploymentNetwork(store, collectionName, networkName);
+      }
+
+      sendCached(
+        req,
+        res,
+        await getRarityStats(
+          store,
+          collectionName,
+          networkName,
+          contractService,
+          config
+        ),
+        { maxAge: config.httpCache.defaultMaxAgeSeconds },
+        config.httpCache
+      );
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+export const createCollectionHandler =
+  (store: IMetadataStore, config: ApiConfig = defaultApiConfig) =>
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const { collectionName, networkName } = req.params;
+
+      ensureCollectionExists(store, collectionName);
+      ensureKnownNetwork(store, networkName);
+      ensureDeploymentNetwork(store, collectionName, networkName);
+
+      const uriRewrite = resolveUriRewrite(
+        config.uriRewrite,
+        store.getCollection(collectionName),
+        req.query
+      );
+
+      sendCached(
+        req,
+        res,
+        rewriteUris(
+          getCollectionMetadata(store, collectionName, networkName),
+          uriRewrite
+        ),
+        { maxAge: config.httpCache.defaultMaxAgeSeconds },
+        config.httpCache
+      );
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+export const sendError = (res: express.Response, error: HttpError): void => {
+  res.status(error.status || 500).send({
+    error: {
+      status: error.status || 500,
+      message: error.message || 'Internal Server Error',
+    },
+  });
+};
+
+/**
+ * Metadata of the artwork with the collection defaults applied, or the placeholder
+ * of the token if no artwork is visible. Templates are rendered with the request params,
+ * and {id} is substituted for ERC1155 collections.
+ */
+export const getServedMetadata = (
+  store: IMetadataStore,
+  { collectionName, tokenId, networkName }: RequestParams,
+  artworkId: bigint | undefined
+): TokenMetadata => {
+  const collection = store.getCollection(collectionName);
+  const variables = {
+    tokenId,
+    artworkId,
+    collection: collectionName,
+    network: networkName,
+  };
+  const metadata = renderTemplate(
+    artworkId === undefined
+      ? // defaults are not applied, they may refer to the real artwork
+        ensurePlaceholderExists(store, collectionName, tokenId)
+      : applyDefaults(
+          collection?.defaults,
+          ensureTokenExists(store, collectionName, artworkId)
+        ),
+    variables
+  );
+  return collection?.contract.standard === 'ERC1155'
+    ? substituteErc1155Id(metadata, toErc1155Id(tokenId))
+    : metadata;
+};
+
+/**
+ * Collection metadata with the overrides of the network applied
+ */
+export const getCollectionMetadata = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  networkName: Network
+): CollectionMetadata => {
+  const metadata = store.getCollection(collectionName)?.collection;
+  if (!metadata) {
+    throw new HttpError(
+      404,
+      `No collection metadata for collection ${collectionName}`
+    );
+  }
+  return omit(
+    merge({}, metadata, metadata.networks?.[networkName]),
+    'networks'
+  );
+};
+
+/**
+ * Time based reveal, collections revealed on chain are never revealed without ethers.
+ * Given a tokenId, the reveal phase of the token has to be revealed as well.
+ */
 export const isCollectionRevealed = (
-  database: TokenDatabase,
-  collectionName: Slug
+  store: IMetadataStore,
+  collectionName: Slug,
+  tokenId?: bigint
 ): boolean => {
-  return Boolean(
-    !database[collectionName].revealTime ||
-      (database[collectionName].revealTime as number) <= Date.now()
+  const collection = store.getCollection(collectionName);
+  if (collection?.reveal && collection.reveal.type !== 'time') {
+    return false;
+  }
+  const revealTime = collection?.revealTime;
+  return (
+    Boolean(!revealTime || revealTime <= Date.now()) &&
+    isPhaseRevealed(store, collectionName, tokenId)
+  );
+};
+
+export const isCollectionRevealedOnNetwork = async (
+  store: IMetadataStore,
+  contractService: IContractService,
+  collectionName: Slug,
+  networkName: Network,
+  tokenId?: bigint
+): Promise<boolean> => {
+  const reveal = store.getCollection(collectionName)?.reveal;
+  if (!reveal || reveal.type === 'time') {
+    return isCollectionRevealed(store, collectionName, tokenId);
+  }
+  if (!isPhaseRevealed(store, collectionName, tokenId)) {
+    return false;
+  }
+  return contractService.isRevealed(collectionName, networkName);
+};
+
+/**
+ * The reveal phase the token belongs to, if any
+ */
+export const getRevealPhase = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  tokenId: bigint
+): RevealPhase | undefined =>
+  findForToken(store.getCollection(collectionName)?.revealPhases, tokenId);
+
+const isPhaseRevealed = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  tokenId?: bigint
+): boolean => {
+  const phase =
+    tokenId === undefined
+      ? undefined
+      : getRevealPhase(store, collectionName, tokenId);
+  return !phase || isRevealPhaseOpen(phase);
+};
+
+const isRevealPhaseOpen = (phase: RevealPhase): boolean =>
+  phase.revealed ??
+  Boolean(!phase.revealTime || phase.revealTime <= Date.now());
+
+/**
+ * Name of the placeholder served while the token is not revealed:
+ * the placeholder of its reveal phase, the first matching placeholder variant,
+ * or the placeholder token
+ */
+export const getPlaceholderId = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  tokenId: bigint
+): string => {
+  const phasePlaceholder = getRevealPhase(
+    store,
+    collectionName,
+    tokenId
+  )?.placeholder;
+  if (phasePlaceholder) {
+    return phasePlaceholder;
+  }
+  const variant = Object.entries(
+    store.getCollection(collectionName)?.placeholders || {}
+  ).find(([, variant]) =>
+    matchesPlaceholderVariant(store, collectionName, variant, tokenId)
+  );
+  return variant?.[0] || 'placeholder';
+};
+
+const matchesPlaceholderVariant = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  variant: PlaceholderVariant,
+  tokenId: bigint
+): boolean => {
+  const { trait } = variant;
+  const selectsTokens =
+    variant.tokens !== undefined ||
+    variant.from !== undefined ||
+    variant.to !== undefined;
+  if (selectsTokens && !matchesToken(variant, tokenId)) {
+    return false;
+  }
+  if (!trait) {
+    return true;
+  }
+  // the attributes of reserved tokens are not public, and tokens of provenance collections
+  // are stored by artwork id
+  if (
+    store.getCollection(collectionName)?.provenance ||
+    isTokenReserved(store, collectionName, tokenId)
+  ) {
+    return false;
+  }
+  const attributes = store.getToken(
+    collectionName,
+    tokenId.toString()
+  )?.attributes;
+  return (
+    Array.isArray(attributes) &&
+    attributes.some(
+      (attribute) =>
+        attribute?.trait_type === trait.trait_type &&
+        attribute?.value === trait.value
+    )
+  );
+};
+
+/**
+ * Metadata of the placeholder of the token, from the placeholder variants or the tokens
+ */
+export const ensurePlaceholderExists = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  tokenId: bigint
+): TokenMetadata => {
+  const placeholderId = getPlaceholderId(store, collectionName, tokenId);
+  return (
+    store.getCollection(collectionName)?.placeholders?.[placeholderId]
+      ?.metadata || ensureTokenExists(store, collectionName, placeholderId)
   );
 };
 
 export const isTokenReserved = (
-  database: TokenDatabase,
+  store: IMetadataStore,
   collectionName: Slug,
-  tokenId: number
+  tokenId: bigint
 ): boolean => {
-  return Boolean(database[collectionName]?.reservedTokens?.includes(tokenId));
+  return Boolean(
+    store
+      .getCollection(collectionName)
+      ?.reservedTokens?.some((reserved) =>
+        typeof reserved === 'object'
+          ? isInRange(reserved, tokenId)
+          : BigInt(reserved) === tokenId
+      )
+  );
 };
 
 export const ensureCollectionExists = (
-  database: TokenDatabase,
+  store: IMetadataStore,
   collectionName: Slug
 ): void => {
-  if (!database[collectionName]) {
+  if (!store.getCollection(collectionName)) {
     throw new HttpError(404, `No such collection: ${collectionName}`);
   }
 };
 
 export const ensureTokenExists = (
-  database: TokenDatabase,
+  store: IMetadataStore,
   collectionName: Slug,
-  tokenId: string | number
-): void => {
-  if (!database[collectionName]?.tokens?.[tokenId]) {
+  tokenId: TokenId | bigint
+): TokenMetadata => {
+  const token = store.getToken(collectionName, tokenId.toString());
+  if (!token) {
     throw new HttpError(
       404,
       `No token by tokenId ${tokenId} in collection ${collectionName}`
     );
   }
+  return token;
+};
+
+/**
+ * Own keys of the deployments only, names like constructor are not networks
+ */
+const isDeployedTo = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  networkName: Network
+): boolean => {
+  const deployments =
+    store.getCollection(collectionName)?.contract?.deployments;
+  return Boolean(
+    deployments &&
+      Object.prototype.hasOwnProperty.call(deployments, networkName) &&
+      deployments[networkName]
+  );
+};
+
+/**
+ * Networks are known to ethers, or have a deployment of any collection.
+ * Ethers looks names up on a plain object, so the network has to come with a chain id.
+ */
+export const ensureKnownNetwork = (
+  store: IMetadataStore,
+  networkName: Network
+): void => {
+  const isDeployed = store
+    .getCollectionNames()
+    .some((collectionName) => isDeployedTo(store, collectionName, networkName));
+  if (
+    !isDeployed &&
+    typeof ethers.providers.getNetwork(networkName)?.chainId !== 'number'
+  ) {
+    throw new HttpError(400, `Unknown network: ${networkName}`);
+  }
+};
+
+/**
+ * Tokens outside the minTokenId and maxSupply bounds of the collection can not exist
+ */
+export const isTokenInBounds = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  tokenId: bigint
+): boolean => {
+  const collection = store.getCollection(collectionName);
+  const minTokenId = BigInt(collection?.minTokenId ?? 0);
+  const maxSupply = collection?.maxSupply;
+  return (
+    tokenId >= minTokenId &&
+    (maxSupply === undefined || tokenId < minTokenId + BigInt(maxSupply))
+  );
+};
+
+export const ensureTokenInBounds = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  tokenId: bigint
+): void => {
+  if (!isTokenInBounds(store, collectionName, tokenId)) {
+    throw new HttpError(
+      404,
+      `Token ${tokenId} is out of the bounds of collection ${collectionName}`
+    );
+  }
 };
 
 export const ensureDeploymentNetwork = (
-  database: TokenDatabase,
+  store: IMetadataStore,
   collectionName: Slug,
   networkName: Network
 ): void => {
-  if (!database[collectionName]?.contract?.deployments?.[networkName]) {
+  if (!isDeployedTo(store, collectionName, networkName)) {
     throw new HttpError(
       404,
       `Collection ${collectionName} is not deployed to network ${networkName}`
@@ -152,10 +785,31 @@ export const ensureDeploymentNetwork = (
   }
 };
 
+export type RequestParams = {
+  collectionName: Slug;
+  tokenId: bigint;
+  networkName: Network;
+};
+
+/**
+ * Validated request params, unknown collections and networks, and non-canonical token ids
+ * are rejected. Hex token ids are only accepted for ERC1155 collections.
+ */
 export const extractParams = (
+  store: IMetadataStore,
   req: express.Request
-): { collectionName: string; tokenId: number; networkName: string } => ({
-  networkName: req.params.networkName,
-  collectionName: req.params.collectionName,
-  tokenId: parseInt(req.params.tokenId),
-});
+): RequestParams => {
+  const { collectionName, networkName, tokenId } = req.params;
+  ensureCollectionExists(store, collectionName);
+  if (networkName !== undefined) {
+    ensureKnownNetwork(store, networkName);
+  }
+  return {
+    collectionName,
+    networkName,
+    tokenId: parseTokenId(
+      String(tokenId),
+      store.getCollection(collectionName)?.contract.standard === 'ERC1155'
+    ),
+  };
+};
@@ -0,0 +1,102 @@
+import omit from 'lodash/omit';
+import { ethers } from 'ethers';
+import { IContractService } from '../types/IContractService';
+import { TokenMetadata } from '../types/TokenMetadata';
+import { ContractStateMapping } from '../types/ContractStateMapping';
+import { Network, Slug } from '../types/_';
+import { applyDefaults } from './defaults';
+import { defaultArgs, resolveArgs } from './resolvers';
+
+type Attribute = { trait_type?: string; value?: unknown };
+
+/**
+ * Numbers returned by the contract as JSON numbers, unless they are too large
+ */
+const toMetadataValue = (value: unknown): unknown => {
+  const number = ethers.BigNumber.isBigNumber(value) ? value.toBigInt() : value;
+  if (typeof number !== 'bigint') {
+    return number;
+  }
+  return number <= BigInt(Number.MAX_SAFE_INTEGER) &&
+    number >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(number)
+    : number.toString();
+};
+
+/**
+ * The token without the variants of the mappings
+ */
+export const omitVariants = (
+  mappings: Record<string, ContractStateMapping> | undefined,
+  metadata: TokenMetadata
+): TokenMetadata => {
+  const keys = Object.values(mappings || {}).flatMap(({ variants }) =>
+    variants ? [variants] : []
+  );
+  return keys.length ? omit(metadata, keys) : metadata;
+};
+
+/**
+ * Reads the contract state of the token, and maps it into the metadata:
+ * selects the variants by the results, then sets the attributes
+ */
+export const applyContractState = async (
+  mappings: Record<string, ContractStateMapping> | undefined,
+  contractService: IContractService,
+  collectionName: Slug,
+  networkName: Network,
+  tokenId: bigint,
+  metadata: TokenMetadata
+): Promise<TokenMetadata> => {
+  const entries = Object.values(mappings || {});
+  if (!entries.length || !contractService.viewCall) {
+    return omitVariants(mappings, metadata);
+  }
+  const owner = entries.some(({ args }) => args?.includes('{{owner}}'))
+    ? await contractService.getOwner?.(collectionName, networkName, tokenId)
+    : undefined;
+  const results = await Promise.all(
+    entries.map(({ signature, args = defaultArgs }) =>
+      contractService.viewCall?.(
+        collectionName,
+        networkName,
+        signature,
+        resolveArgs(args, tokenId, owner)
+      )
+    )
+  );
+
+  let served = omitVariants(mappings, metadata);
+  const attributes: Attribute[] = [];
+  entries.forEach(({ variants, attribute }, index) => {
+    if (results[index] === undefined) {
+      return;
+    }
+    const value = toMetadataValue(results[index]);
+    const variant = variants
+      ? (metadata[variants] as Record<string, unknown> | undefined)?.[
+          String(value)
+        ]
+      : undefined;
+    if (typeof variant === 'object' && variant !== null) {
+      served = applyDefaults(served, variant as TokenMetadata);
+    }
+    if (attribute) {
+      attributes.push({ trait_type: attribute, value });
+    }
+  });
+  if (!attributes.length) {
+    return served;
+  }
+  // attributes of the contract state replace the static ones of the same trait type
+  return {
+    ...served,
+    attributes: [
+      ...((served.attributes as Attribute[] | undefined) || []).filter(
+        ({ trait_type }) =>
+          !attributes.some((attribute) => attribute.trait_type === trait_type)
+      ),
+      ...attributes,
+    ],
+  };
+};
@@ -2,6 +2,40 @@ import { ApiConfig } from '../types/ApiConfig';
 
 const config: ApiConfig = {
   totalSupplyCacheTTlSeconds: 300,
+  validation: 'lenient',
+  rpc: {
+    batchWindowMs: 10,
+    maxBatchSize: 100,
+    multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
+    maxConcurrency: 8,
+    retries: 2,
+    retryDelayMs: 200,
+    serveStale: true,
+  },
+  uriRewrite: {
+    mode: 'raw',
+    ipfsGateway: 'https://ipfs.io/ipfs/',
+    arweaveGateway: 'https://arweave.net/',
+    rawKeySuffix: '_raw',
+    gateways: {},
+  },
+  router: {
+    prefix: '',
+    healthRoute: '/health',
+    listRoute: '/nft',
+    collectionRoutes: {},
+    notFound: true,
+  },
+  rarity: {
+    inject: false,
+    key: 'rarity',
+  },
+  httpCache: {
+    enabled: true,
+    revealedMaxAgeSeconds: 31536000,
+    placeholderMaxAgeSeconds: 60,
+    defaultMaxAgeSeconds: 60,
+  },
 };
 
 export default config;
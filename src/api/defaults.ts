@@ -0,0 +1,15 @@
+import mergeWith from 'lodash/mergeWith';
+import { TokenMetadata } from '../types/TokenMetadata';
+
+/**
+ * Deep merges the token into the defaults, arrays of the token replace the defaults
+ */
+export const applyDefaults = (
+  defaults: TokenMetadata | undefined,
+  metadata: TokenMetadata
+): TokenMetadata =>
+  defaults
+    ? mergeWith({}, defaults, metadata, (_, value) =>
+        Array.isArray(value) ? value : undefined
+      )
+    : metadata;
@@ -0,0 +1,107 @@
+import express from 'express';
+import { createHash } from 'crypto';
+import { IMetadataStore } from '../types/IMetadataStore';
+import { IContractService } from '../types/IContractService';
+import { ApiConfig } from '../types/ApiConfig';
+import { HttpCacheConfig } from '../types/HttpCacheConfig';
+import { getRevealPhase, RequestParams } from './api';
+
+export type CachePolicy = { maxAge: number; immutable?: boolean };
+
+/**
+ * Strong ETag of the JSON body, the same body always gets the same ETag
+ */
+export const getETag = (body: unknown): string =>
+  `"${createHash('sha1').update(JSON.stringify(body)).digest('hex')}"`;
+
+/**
+ * Whether the If-None-Match header lists the ETag, weak comparison as for GET requests
+ */
+export const matchesETag = (
+  ifNoneMatch: string | undefined,
+  etag: string
+): boolean =>
+  ifNoneMatch !== undefined &&
+  ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+
+/**
+ * Sends the body with its Cache-Control and ETag headers, or 304 when the client has it already
+ */
+export const sendCached = (
+  req: express.Request,
+  res: express.Response,
+  body: unknown,
+  policy: CachePolicy,
+  config: HttpCacheConfig
+): void => {
+  if (!config.enabled) {
+    res.json(body);
+    return;
+  }
+  const etag = getETag(body);
+  res.set({
+    'Cache-Control': `public, max-age=${Math.max(
+      0,
+      Math.floor(policy.maxAge)
+    )}${policy.immutable ? ', immutable' : ''}`,
+    ETag: etag,
+  });
+  if (matchesETag(req.headers?.['if-none-match'], etag)) {
+    res.status(304).end();
+    return;
+  }
+  res.json(body);
+};
+
+/**
+ * Policy of the token response.
+ * Revealed tokens are immutable unless their metadata follows the chain or other tokens,
+ * or they can be burned, or the chain state is stale.
+ * Placeholders are not cached past the next reveal time, nor past the existence cache TTL with a contract service.
+ */
+export const getTokenCachePolicy = (
+  store: IMetadataStore,
+  { collectionName, tokenId }: RequestParams,
+  artworkId: bigint | undefined,
+  config: ApiConfig,
+  contractService?: IContractService,
+  stale = false
+): CachePolicy => {
+  const {
+    revealedMaxAgeSeconds,
+    placeholderMaxAgeSeconds,
+    defaultMaxAgeSeconds,
+  } = config.httpCache;
+  const collection = store.getCollection(collectionName);
+  if (artworkId !== undefined) {
+    const existence = collection?.existence;
+    const dynamic =
+      stale ||
+      config.rarity.inject ||
+      (contractService !== undefined &&
+        (Object.keys(collection?.contractState || {}).length > 0 ||
+          Boolean(config.resolvers?.[collectionName]?.length))) ||
+      (existence?.type === 'totalSupply' && Boolean(existence.burnable)) ||
+      // indexed Transfer events drop burned tokens
+      existence?.type === 'transferEvents';
+    return dynamic
+      ? { maxAge: defaultMaxAgeSeconds }
+      : { maxAge: revealedMaxAgeSeconds, immutable: true };
+  }
+  const now = Date.now();
+  const phase = getRevealPhase(store, collectionName, tokenId);
+  const revealTimes = [
+    collection?.revealTime,
+    phase?.revealed === undefined ? phase?.revealTime : undefined,
+  ].filter((time): time is number => time !== undefined && time > now);
+  return {
+    maxAge: Math.min(
+      placeholderMaxAgeSeconds,
+      ...revealTimes.map((time) => Math.ceil((time - now) / 1000)),
+      ...(contractService ? [config.totalSupplyCacheTTlSeconds] : [])
+    ),
+  };
+};
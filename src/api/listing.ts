@@ -0,0 +1,281 @@
+import express from 'express';
+import { IMetadataStore } from '../types/IMetadataStore';
+import { IContractService } from '../types/IContractService';
+import { ApiConfig } from '../types/ApiConfig';
+import { TokenMetadata } from '../types/TokenMetadata';
+import { CollectionContract } from '../types/CollectionContract';
+import { Page } from '../types/Page';
+import { Network, Slug } from '../types/_';
+import { TokenFilter } from '../types/TokenFilter';
+import { HttpError } from '../errors';
+import { ChainReads } from '../types/ChainReads';
+import defaultApiConfig from './defaultApiConfig';
+import {
+  degradedHeader,
+  ensureCollectionExists,
+  ensureDeploymentNetwork,
+  ensureKnownNetwork,
+  getServedToken,
+  getVisibleArtworkIds,
+  Handler,
+  isTokenInBounds,
+  sendError,
+  withReads,
+} from './api';
+import SearchIndex from './SearchIndex';
+import { sendCached } from './httpCache';
+import { getArtworkId } from '../provenance/provenance';
+import { getSortedTokenIds, parseTokenId } from './tokenIds';
+import { resolveUriRewrite, rewriteUris } from './uris';
+
+export const defaultPageSize = 100;
+export const maxPageSize = 1000;
+
+/**
+ * The ?cursor and ?limit query params of listings
+ */
+export const parsePage = (
+  query: express.Request['query']
+): { cursor?: string; limit: number } => {
+  const { cursor, limit } = query;
+  if (cursor !== undefined && typeof cursor !== 'string') {
+    throw new HttpError(400, 'cursor must be a string');
+  }
+  if (limit === undefined) {
+    return { cursor, limit: defaultPageSize };
+  }
+  if (
+    typeof limit !== 'string' ||
+    !/^\d+$/.test(limit) ||
+    Number(limit) < 1 ||
+    Number(limit) > maxPageSize
+  ) {
+    throw new HttpError(
+      400,
+      `limit must be an integer between 1 and ${maxPageSize}`
+    );
+  }
+  return { cursor, limit: Number(limit) };
+};
+
+/**
+ * Collections by name, with their deployments
+ */
+export const createListHandler =
+  (store: IMetadataStore, config: ApiConfig = defaultApiConfig) =>
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const { cursor, limit } = parsePage(req.query);
+      const names = store
+        .getCollectionNames()
+        .filter((name) => cursor === undefined || name > cursor)
+        .sort();
+      const page: Page<{
+        name: Slug;
+        deployments: CollectionContract['deployments'];
+      }> = {
+        items: names.slice(0, limit).map((name) => ({
+          name,
+          deployments: store.getCollection(name)?.contract.deployments || {},
+        })),
+        next: names.length > limit ? names[limit - 1] : null,
+      };
+      sendCached(
+        req,
+        res,
+        page,
+        { maxAge: config.httpCache.defaultMaxAgeSeconds },
+        config.httpCache
+      );
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+type ListedToken = { tokenId: string; metadata: TokenMetadata };
+
+/**
+ * Lists the visible tokens among the selected ones by token id, tokens served with a placeholder are left out.
+ * The cursor is the last token id looked at.
+ */
+const createVisibleTokensHandler =
+  (
+    store: IMetadataStore,
+    config: ApiConfig,
+    contractService: IContractService | undefined,
+    select?: (
+      req: express.Request,
+      collectionName: Slug,
+      networkName: Network,
+      tokenIds: bigint[],
+      contractService: IContractService | undefined
+    ) => Promise<bigint[]>
+  ) =>
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const { collectionName, networkName } = req.params;
+
+      ensureCollectionExists(store, collectionName);
+      ensureKnownNetwork(store, networkName);
+      if (contractService) {
+        ensureDeploymentNetwork(store, collectionName, networkName);
+      }
+      const reads: ChainReads = { stale: false };
+      const responseContractService =
+        contractService && withReads(contractService, reads);
+
+      const { cursor, limit } = parsePage(req.query);
+      const after = cursor === undefined ? undefined : parseTokenId(cursor);
+      const sortedTokenIds = getSortedTokenIds(store, collectionName).filter(
+        (tokenId) =>
+          (after === undefined || tokenId > after) &&
+          isTokenInBounds(store, collectionName, tokenId)
+      );
+      const tokenIds = select
+        ? await select(
+            req,
+            collectionName,
+            networkName,
+            sortedTokenIds,
+            responseContractService
+          )
+        : sortedTokenIds;
+      const uriRewrite = resolveUriRewrite(
+        config.uriRewrite,
+        store.getCollection(collectionName),
+        req.query
+      );
+
+      const items: ListedToken[] = [];
+      let index = 0;
+      while (items.length < limit && index < tokenIds.length) {
+        const chunk = tokenIds.slice(index, index + limit - items.length);
+        index += chunk.length;
+        const artworkIds = await getVisibleArtworkIds(
+          store,
+          collectionName,
+          networkName,
+          chunk,
+          responseContractService
+        );
+        for (const [i, tokenId] of chunk.entries()) {
+          if (artworkIds[i] === undefined) {
+            continue;
+          }
+          const metadata = await getServedToken(
+            store,
+            { collectionName, networkName, tokenId },
+            artworkIds[i],
+            config,
+            responseContractService
+          );
+          items.push({
+            tokenId: tokenId.toString(),
+            metadata: rewriteUris(metadata, uriRewrite),
+          });
+        }
+      }
+
+      if (reads.stale) {
+        res.set(degradedHeader, 'stale');
+      }
+
+      const page: Page<ListedToken> = {
+        items,
+        next: index < tokenIds.length ? tokenIds[index - 1].toString() : null,
+      };
+      sendCached(
+        req,
+        res,
+        page,
+        { maxAge: config.httpCache.defaultMaxAgeSeconds },
+        config.httpCache
+      );
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+/**
+ * Visible tokens of the collection
+ */
+export const createTokenListHandler = (
+  store: IMetadataStore,
+  config: ApiConfig = defaultApiConfig,
+  contractService?: IContractService
+): Handler => createVisibleTokensHandler(store, config, contractService);
+
+/**
+ * Query params of the search: trait=type:value, range=type:min:max with optional bounds, and name=text.
+ * Values of the same trait type are alternatives, everything else has to match.
+ */
+export const parseFilter = (query: express.Request['query']): TokenFilter => {
+  const toArray = (value: unknown): unknown[] =>
+    value === undefined ? [] : Array.isArray(value) ? value : [value];
+  const filter: TokenFilter = { traits: {}, ranges: {} };
+  for (const trait of toArray(query.trait)) {
+    const separator = typeof trait === 'string' ? trait.indexOf(':') : -1;
+    if (separator < 1) {
+      throw new HttpError(400, 'trait must be formatted as type:value');
+    }
+    const traitType = (trait as string).slice(0, separator);
+    filter.traits[traitType] = [
+      ...(filter.traits[traitType] || []),
+      (trait as string).slice(separator + 1),
+    ];
+  }
+  for (const range of toArray(query.range)) {
+    const [traitType, min, max, ...rest] =
+      typeof range === 'string' ? range.split(':') : [];
+    const bounds = [min, max].map((bound) =>
+      bound === '' ? undefined : Number(bound)
+    );
+    if (
+      !traitType ||
+      max === undefined ||
+      rest.length ||
+      bounds.some((bound) => bound !== undefined && Number.isNaN(bound))
+    ) {
+      throw new HttpError(400, 'range must be formatted as type:min:max');
+    }
+    filter.ranges[traitType] = { min: bounds[0], max: bounds[1] };
+  }
+  if (query.name !== undefined) {
+    if (typeof query.name !== 'string') {
+      throw new HttpError(400, 'name must be a string');
+    }
+    filter.name = query.name;
+  }
+  return filter;
+};
+
+/**
+ * Visible tokens of the collection matching the filter of the query
+ */
+export const createSearchHandler = (
+  store: IMetadataStore,
+  searchIndex: SearchIndex,
+  config: ApiConfig = defaultApiConfig,
+  contractService?: IContractService
+): Handler =>
+  createVisibleTokensHandler(
+    store,
+    config,
+    contractService,
+    async (req, collectionName, networkName, tokenIds, contractService) => {
+      const matches = searchIndex.search(
+        collectionName,
+        parseFilter(req.query)
+      );
+      const provenance = store.getCollection(collectionName)?.provenance;
+      const startingIndex =
+        contractService && provenance
+          ? await contractService.getStartingIndex(collectionName, networkName)
+          : provenance?.startingIndex;
+      // the index holds the artworks, tokens match by the artwork they reveal
+      return tokenIds.filter((tokenId) => {
+        const artworkId = getArtworkId(provenance, tokenId, startingIndex);
+        return artworkId !== undefined && matches.has(artworkId.toString());
+      });
+    }
+  );
@@ -0,0 +1,121 @@
+import { IMetadataStore } from '../types/IMetadataStore';
+import { TokenMetadata } from '../types/TokenMetadata';
+import { RarityStats } from '../types/RarityStats';
+import { Network, Slug } from '../types/_';
+
+type Attribute = {
+  trait_type?: unknown;
+  value?: unknown;
+  display_type?: unknown;
+};
+
+/**
+ * Traits counted for rarity, numeric and date attributes have a display type and are left out
+ */
+const getTraits = (metadata: TokenMetadata): [string, string][] =>
+  Array.isArray(metadata.attributes)
+    ? (metadata.attributes as Attribute[])
+        .filter(
+          (attribute) =>
+            typeof attribute?.trait_type === 'string' &&
+            attribute.display_type === undefined &&
+            attribute.value !== undefined
+        )
+        .map(({ trait_type, value }) => [trait_type as string, String(value)])
+    : [];
+
+/**
+ * Trait counts and frequencies, and the rarity score and rank of the tokens,
+ * rarer traits add more to the score, equal scores share the rank
+ */
+export const computeRarityStats = (
+  tokens: [string, TokenMetadata][]
+): RarityStats => {
+  const tokenCount = tokens.length;
+  const traits: RarityStats['traits'] = {};
+  const tokenTraits = tokens.map(
+    ([tokenId, metadata]) => [tokenId, getTraits(metadata)] as const
+  );
+  for (const [, pairs] of tokenTraits) {
+    for (const [traitType, value] of pairs) {
+      traits[traitType] = traits[traitType] || {};
+      traits[traitType][value] = traits[traitType][value] || {
+        count: 0,
+        frequency: 0,
+      };
+      traits[traitType][value].count++;
+    }
+  }
+  for (const values of Object.values(traits)) {
+    for (const stats of Object.values(values)) {
+      stats.frequency = stats.count / tokenCount;
+    }
+  }
+
+  const scores = tokenTraits
+    .map(([tokenId, pairs]) => ({
+      tokenId,
+      score: pairs.reduce(
+        (score, [traitType, value]) =>
+          score + 1 / traits[traitType][value].frequency,
+        0
+      ),
+    }))
+    .sort((a, b) => b.score - a.score);
+  const ranked: RarityStats['tokens'] = {};
+  scores.forEach(({ tokenId, score }, index) => {
+    const previous = index > 0 ? ranked[scores[index - 1].tokenId] : undefined;
+    ranked[tokenId] = {
+      score,
+      rank: previous?.score === score ? previous.rank : index + 1,
+    };
+  });
+  return { tokenCount, traits, tokens: ranked };
+};
+
+/**
+ * Store->collection and network->stats, the reveal state they were computed for, and when
+ */
+const statsCache = new WeakMap<
+  IMetadataStore,
+  Record<
+    string,
+    { key: string; computedAt: number; stats: Promise<RarityStats> }
+  >
+>();
+
+/**
+ * Stats of the collection on the network from the cache, computed again if the store or the key changed,
+ * or they are older than maxAgeSeconds. Concurrent lookups share the computation.
+ */
+export const getCachedRarityStats = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  networkName: Network,
+  key: string,
+  maxAgeSeconds: number,
+  compute: () => Promise<RarityStats>
+): Promise<RarityStats> => {
+  let cache = statsCache.get(store);
+  if (!cache) {
+    cache = {};
+    statsCache.set(store, cache);
+    store.subscribe?.(() => statsCache.set(store, {}));
+  }
+  const id = JSON.stringify([collectionName, networkName]);
+  const now = Date.now() / 1000;
+  const cached = cache[id];
+  if (cached?.key === key && cached.computedAt > now - maxAgeSeconds) {
+    return cached.stats;
+  }
+  const entries = cache;
+  const entry = { key, computedAt: now, stats: compute() };
+  entries[id] = entry;
+  // failed computations are not kept
+  entry.stats.catch(() => {
+    if (entries[id] === entry) {
+      delete entries[id];
+    }
+  });
+  return entry.stats;
+};
@@ -0,0 +1,81 @@
+import mergeWith from 'lodash/mergeWith';
+import { ethers } from 'ethers';
+import { IContractService } from '../types/IContractService';
+import { TokenMetadata } from '../types/TokenMetadata';
+import { TokenResolver } from '../types/TokenResolver';
+import { ViewCall } from '../types/ViewCall';
+import { Address, Network, Slug } from '../types/_';
+
+export const defaultArgs = ['{{tokenId}}'];
+
+export const resolveArgs = (
+  args: unknown[],
+  tokenId: bigint,
+  owner: Address | undefined
+): unknown[] =>
+  args.map((arg) => {
+    if (arg === '{{tokenId}}') {
+      return tokenId;
+    }
+    if (arg === '{{owner}}') {
+      return owner || ethers.constants.AddressZero;
+    }
+    return arg;
+  });
+
+/**
+ * Merges the output of the resolvers into the metadata, in order.
+ * Arrays, like attributes, are appended to, other values are replaced.
+ */
+export const applyResolvers = async (
+  resolvers: TokenResolver[] | undefined,
+  contractService: IContractService,
+  collectionName: Slug,
+  networkName: Network,
+  tokenId: bigint,
+  metadata: TokenMetadata
+): Promise<TokenMetadata> => {
+  if (!resolvers?.length) {
+    return metadata;
+  }
+  const owner = await contractService.getOwner?.(
+    collectionName,
+    networkName,
+    tokenId
+  );
+  let resolved = metadata;
+  for (const resolver of resolvers) {
+    const calls = Object.fromEntries(
+      await Promise.all(
+        Object.entries(resolver.calls || {}).map(
+          async ([name, { signature, args = defaultArgs }]: [
+            string,
+            ViewCall
+          ]) => [
+            name,
+            await contractService.viewCall?.(
+              collectionName,
+              networkName,
+              signature,
+              resolveArgs(args, tokenId, owner)
+            ),
+          ]
+        )
+      )
+    );
+    const output = await resolver.resolve({
+      collectionName,
+      networkName,
+      tokenId,
+      owner,
+      calls,
+      metadata: resolved,
+    });
+    resolved = mergeWith({}, resolved, output, (target, value) =>
+      Array.isArray(target) && Array.isArray(value)
+        ? [...target, ...value]
+        : undefined
+    );
+  }
+  return resolved;
+};
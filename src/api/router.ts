@@ -0,0 +1,123 @@
+import express from 'express';
+import merge from 'lodash/merge';
+import { TokenDatabase } from '../types/TokenDatabase';
+import { IMetadataStore } from '../types/IMetadataStore';
+import { IContractService } from '../types/IContractService';
+import { ApiConfig } from '../types/ApiConfig';
+import { HttpError } from '../errors';
+import defaultApiConfig from './defaultApiConfig';
+import {
+  api,
+  collectionRoute,
+  defaultRoute,
+  Handler,
+  createStatsHandler,
+  searchRoute,
+  sendError,
+  statsRoute,
+  tokenListRoute,
+} from './api';
+import {
+  createListHandler,
+  createSearchHandler,
+  createTokenListHandler,
+} from './listing';
+import { Network, Slug } from '../types/_';
+
+/**
+ * ok, or degraded while cached chain state is served for some deployments
+ */
+export const createHealthHandler =
+  (store: IMetadataStore, contractService?: IContractService) =>
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const collectionNames = store.getCollectionNames();
+      const degraded = collectionNames.flatMap((collectionName) =>
+        Object.keys(
+          store.getCollection(collectionName)?.contract.deployments || {}
+        )
+          .filter((networkName) =>
+            contractService?.isDegraded?.(collectionName, networkName)
+          )
+          .map((networkName) => ({ collectionName, networkName }))
+      );
+      res.json({
+        status: degraded.length ? 'degraded' : 'ok',
+        collections: collectionNames.length,
+        degraded,
+      });
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+
+/**
+ * Serves the collection under a route of its own, the route params take precedence
+ */
+const withParams =
+  (handler: Handler, collectionName: Slug, networkName?: Network): Handler =>
+  (req, res) => {
+    req.params = {
+      collectionName,
+      ...(networkName && { networkName }),
+      ...req.params,
+    };
+    return handler(req, res);
+  };
+
+/**
+ * Router serving the token, collection, token list, stats and search routes, the health and list routes,
+ * and the routes of the collections configured with routes of their own
+ */
+export const createRouter = (
+  source: TokenDatabase | IMetadataStore,
+  userConfig: Partial<ApiConfig> = {}
+): express.Router => {
+  const config = merge({}, defaultApiConfig, userConfig);
+  const { prefix, healthRoute, listRoute, collectionRoutes, notFound } =
+    config.router;
+  const { handler, collectionHandler, contractService, store, searchIndex } =
+    api(source, userConfig);
+  const router = express.Router();
+
+  router.get(prefix + healthRoute, createHealthHandler(store, contractService));
+  router.get(prefix + listRoute, createListHandler(store, config));
+  for (const [collectionName, routes] of Object.entries(collectionRoutes)) {
+    if (routes.token) {
+      router.get(
+        prefix + routes.token,
+        withParams(handler, collectionName, routes.network)
+      );
+    }
+    if (routes.collection) {
+      router.get(
+        prefix + routes.collection,
+        withParams(collectionHandler, collectionName, routes.network)
+      );
+    }
+  }
+  router.get(prefix + collectionRoute, collectionHandler);
+  router.get(
+    prefix + tokenListRoute,
+    createTokenListHandler(store, config, contractService)
+  );
+  router.get(
+    prefix + statsRoute,
+    createStatsHandler(store, contractService, config)
+  );
+  router.get(
+    prefix + searchRoute,
+    createSearchHandler(store, searchIndex, config, contractService)
+  );
+  router.get(prefix + defaultRoute, handler);
+
+  if (notFound) {
+    router.use((req, res) =>
+      sendError(
+        res,
+        new HttpError(404, `No route for ${req.method} ${req.path}`)
+      )
+    );
+  }
+  return router;
+};
@@ -0,0 +1,36 @@
+export type TemplateVariables = Record<
+  string,
+  string | number | bigint | undefined
+>;
+
+/**
+ * Replaces {{variable}} references in every string of the value,
+ * references to unknown or undefined variables are left untouched
+ */
+export const renderTemplate = <T>(value: T, variables: TemplateVariables): T =>
+  mapStrings(value, (string) =>
+    string.replace(/{{\s*(\w+)\s*}}/g, (match, name) =>
+      variables[name] === undefined ? match : String(variables[name])
+    )
+  );
+
+/**
+ * Replaces the ERC1155 {id} references in every string of the value
+ */
+export const substituteErc1155Id = <T>(value: T, id: string): T =>
+  mapStrings(value, (string) => string.split('{id}').join(id));
+
+const mapStrings = <T>(value: T, map: (string: string) => string): T => {
+  if (typeof value === 'string') {
+    return map(value) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, map)) as unknown as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])
+    ) as unknown as T;
+  }
+  return value;
+};
@@ -0,0 +1,56 @@
+import { HttpError } from '../errors';
+import { Slug, TokenId } from '../types/_';
+import { IMetadataStore } from '../types/IMetadataStore';
+
+/**
+ * ERC1155 clients substitute {id} with the lowercase hex id, zero padded to 64 characters
+ */
+const erc1155IdPattern = /^[0-9a-fA-F]{64}$/;
+
+/**
+ * Canonical decimal ids have no sign, whitespace or leading zeros
+ */
+const decimalIdPattern = /^(0|[1-9]\d*)$/;
+
+export const maxTokenId = 2n ** 256n - 1n;
+
+/**
+ * Parses a canonical decimal token id, or an ERC1155 style hex id if allowed.
+ * Ids are bigints, uint256 ids do not fit in a number.
+ * 64 character ids are read as hex when hex is allowed.
+ */
+export const parseTokenId = (value: string, allowHex = false): bigint => {
+  let tokenId: bigint | undefined;
+  if (allowHex && erc1155IdPattern.test(value)) {
+    tokenId = BigInt(`0x${value}`);
+  } else if (decimalIdPattern.test(value)) {
+    tokenId = BigInt(value);
+  }
+  if (tokenId === undefined || tokenId > maxTokenId) {
+    throw new HttpError(400, `Invalid token id: ${value}`);
+  }
+  return tokenId;
+};
+
+export const toErc1155Id = (tokenId: bigint): string =>
+  tokenId.toString(16).padStart(64, '0');
+
+/**
+ * Token ids of the database are integers, or decimal strings for ids beyond Number.MAX_SAFE_INTEGER
+ */
+export const isTokenId = (value: unknown): value is TokenId =>
+  Number.isInteger(value) || (typeof value === 'string' && /^\d+$/.test(value));
+
+/**
+ * Decimal token ids of the collection in ascending order, placeholders and other keys are left out.
+ * Tokens of provenance collections are stored by artwork id, a permutation of the same ids.
+ */
+export const getSortedTokenIds = (
+  store: IMetadataStore,
+  collectionName: Slug
+): bigint[] =>
+  store
+    .getTokenIds(collectionName)
+    .filter((id) => decimalIdPattern.test(id))
+    .map((id) => BigInt(id))
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
@@ -0,0 +1,26 @@
+import { TokenSelector } from '../types/TokenSelector';
+import { TokenRange } from '../types/TokenRange';
+
+export const isInRange = (
+  { from, to }: Partial<TokenRange>,
+  tokenId: bigint
+): boolean =>
+  (from !== undefined || to !== undefined) &&
+  (from === undefined || BigInt(from) <= tokenId) &&
+  (to === undefined || tokenId <= BigInt(to));
+
+export const matchesToken = (
+  selector: TokenSelector,
+  tokenId: bigint
+): boolean =>
+  Boolean(selector.tokens?.some((id) => BigInt(id) === tokenId)) ||
+  isInRange(selector, tokenId);
+
+/**
+ * First selector matching the token
+ */
+export const findForToken = <T extends TokenSelector>(
+  selectors: T[] | undefined,
+  tokenId: bigint
+): T | undefined =>
+  selectors?.find((selector) => matchesToken(selector, tokenId));
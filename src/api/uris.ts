@@ -0,0 +1,94 @@
+import express from 'express';
+import { UriRewriteConfig } from '../types/UriRewriteConfig';
+import { CollectionConfig } from '../types/CollectionConfig';
+import { HttpError } from '../errors';
+
+const MODES = ['raw', 'gateway', 'both'];
+
+/**
+ * The rewrite config of the api, overridden by the collection and the query of the request
+ */
+export const resolveUriRewrite = (
+  config: UriRewriteConfig,
+  collection: CollectionConfig | undefined,
+  query: express.Request['query'] = {}
+): UriRewriteConfig => {
+  const resolved = { ...config, ...collection?.uriRewrite };
+
+  if (typeof query.gateway === 'string') {
+    // own keys only, names like constructor are not gateways
+    const gateway = Object.prototype.hasOwnProperty.call(
+      config.gateways,
+      query.gateway
+    )
+      ? config.gateways[query.gateway]
+      : undefined;
+    if (!gateway) {
+      throw new HttpError(400, `Unknown gateway: ${query.gateway}`);
+    }
+    Object.assign(resolved, gateway);
+    if (resolved.mode === 'raw') {
+      resolved.mode = 'gateway';
+    }
+  }
+
+  if (typeof query.uris === 'string') {
+    if (!MODES.includes(query.uris)) {
+      throw new HttpError(
+        400,
+        `Invalid uris mode: ${query.uris}, expected one of ${MODES.join(', ')}`
+      );
+    }
+    resolved.mode = query.uris as UriRewriteConfig['mode'];
+  }
+
+  return resolved;
+};
+
+/**
+ * Gateway URL of an ipfs:// or ar:// URI, undefined for other values
+ */
+export const toGatewayUri = (
+  uri: string,
+  { ipfsGateway, arweaveGateway }: UriRewriteConfig
+): string | undefined => {
+  if (uri.startsWith('ipfs://')) {
+    return `${ipfsGateway}${uri
+      .slice('ipfs://'.length)
+      .replace(/^ipfs\//, '')}`;
+  }
+  if (uri.startsWith('ar://')) {
+    return `${arweaveGateway}${uri.slice('ar://'.length)}`;
+  }
+  return undefined;
+};
+
+/**
+ * Rewrites the ipfs:// and ar:// URIs anywhere in the value
+ */
+export const rewriteUris = <T>(value: T, config: UriRewriteConfig): T => {
+  if (config.mode === 'raw') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return (toGatewayUri(value, config) ?? value) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => rewriteUris(item, config)) as unknown as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const rewritten: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      rewritten[key] = rewriteUris(item, config);
+      if (
+        config.mode === 'both' &&
+        typeof item === 'string' &&
+        rewritten[key] !== item
+      ) {
+        rewritten[`${key}${config.rawKeySuffix}`] = item;
+      }
+    }
+    return rewritten as T;
+  }
+  return value;
+};
@@ -0,0 +1,56 @@
+import { CachedChainState, IChainStateCache } from '../types/IChainStateCache';
+import { Network, Slug } from '../types/_';
+
+/**
+ * Keeps the chain state in memory, evicting the least recently used entries above maxEntries
+ */
+class LruChainStateCache implements IChainStateCache {
+  /**
+   * Entries in the order of their last use, Maps iterate in insertion order
+   */
+  private readonly _entries = new Map<string, CachedChainState>();
+
+  constructor(private readonly _maxEntries = 10000) {}
+
+  async get(
+    collectionName: Slug,
+    networkName: Network,
+    key: string
+  ): Promise<CachedChainState | undefined> {
+    const id = JSON.stringify([collectionName, networkName, key]);
+    const state = this._entries.get(id);
+    if (state) {
+      this._entries.delete(id);
+      this._entries.set(id, state);
+    }
+    return state;
+  }
+
+  async set(
+    collectionName: Slug,
+    networkName: Network,
+    key: string,
+    state: CachedChainState
+  ): Promise<void> {
+    const id = JSON.stringify([collectionName, networkName, key]);
+    this._entries.delete(id);
+    this._entries.set(id, state);
+    for (const oldest of this._entries.keys()) {
+      if (this._entries.size <= this._maxEntries) {
+        break;
+      }
+      this._entries.delete(oldest);
+    }
+  }
+
+  async clear(collectionName: Slug, networkName: Network): Promise<void> {
+    for (const id of this._entries.keys()) {
+      const [collection, network] = JSON.parse(id);
+      if (collection === collectionName && network === networkName) {
+        this._entries.delete(id);
+      }
+    }
+  }
+}
+
+export default LruChainStateCache;
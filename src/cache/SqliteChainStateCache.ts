@@ -0,0 +1,71 @@
+import type { Database, Statement } from 'better-sqlite3';
+import { CachedChainState, IChainStateCache } from '../types/IChainStateCache';
+import { Network, Slug } from '../types/_';
+
+/**
+ * Keeps the chain state in a SQLite database, opened with better-sqlite3, values are stored as JSON.
+ * The state survives restarts, and is shared by the instances opening the same file.
+ */
+class SqliteChainStateCache implements IChainStateCache {
+  private readonly _statements: {
+    get: Statement;
+    set: Statement;
+    clear: Statement;
+  };
+
+  constructor(private readonly _db: Database) {
+    this._db.exec(`
+      CREATE TABLE IF NOT EXISTS chain_state (
+        collection TEXT NOT NULL,
+        network TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        timestamp REAL NOT NULL,
+        PRIMARY KEY (collection, network, key)
+      );
+    `);
+    this._statements = {
+      get: this._db.prepare(
+        'SELECT value, timestamp FROM chain_state WHERE collection = ? AND network = ? AND key = ?'
+      ),
+      set: this._db.prepare(
+        'INSERT OR REPLACE INTO chain_state (collection, network, key, value, timestamp) VALUES (?, ?, ?, ?, ?)'
+      ),
+      clear: this._db.prepare(
+        'DELETE FROM chain_state WHERE collection = ? AND network = ?'
+      ),
+    };
+  }
+
+  async get(
+    collectionName: Slug,
+    networkName: Network,
+    key: string
+  ): Promise<CachedChainState | undefined> {
+    const row = this._statements.get.get(collectionName, networkName, key) as
+      | { value: string; timestamp: number }
+      | undefined;
+    return row && { value: JSON.parse(row.value), timestamp: row.timestamp };
+  }
+
+  async set(
+    collectionName: Slug,
+    networkName: Network,
+    key: string,
+    { value, timestamp }: CachedChainState
+  ): Promise<void> {
+    this._statements.set.run(
+      collectionName,
+      networkName,
+      key,
+      JSON.stringify(value),
+      timestamp
+    );
+  }
+
+  async clear(collectionName: Slug, networkName: Network): Promise<void> {
+    this._statements.clear.run(collectionName, networkName);
+  }
+}
+
+export default SqliteChainStateCache;
@@ -0,0 +1,2 @@
+export { default as LruChainStateCache } from './LruChainStateCache';
+export { default as SqliteChainStateCache } from './SqliteChainStateCache';
@@ -1,5 +1,8 @@
+import { ValidationIssue } from './types/ValidationIssue';
+
 export class InvalidAuthTypeError extends Error {}
 export class InvalidTotalSupplyResponse extends Error {}
+export class InvalidProviderConfigError extends Error {}
 
 export class HttpError extends Error {
   status: number;
@@ -10,3 +13,19 @@ export class HttpError extends Error {
     this.message = msg;
   }
 }
+
+export class DatabaseValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(
+      [
+        `Invalid token database, ${issues.length} problem(s) found:`,
+        ...issues.map(
+          ({ path, message, severity }) => `  [${severity}] ${path}: ${message}`
+        ),
+      ].join('\n')
+    );
+    this.issues = issues;
+  }
+}
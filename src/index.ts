@@ -1 +1,50 @@
-export { api, defaultRoute } from './api/api';
+export {
+  api,
+  defaultRoute,
+  collectionRoute,
+  tokenListRoute,
+  statsRoute,
+  searchRoute,
+  createWithEthers,
+  createWithoutEthers,
+  createCollectionHandler,
+  createStatsHandler,
+} from './api/api';
+export { createRouter, createHealthHandler } from './api/router';
+export {
+  createListHandler,
+  createTokenListHandler,
+  createSearchHandler,
+} from './api/listing';
+export { default as SearchIndex } from './api/SearchIndex';
+export {
+  InMemoryMetadataStore,
+  JsonDirectoryMetadataStore,
+  SqliteMetadataStore,
+  FileWatchingMetadataStore,
+} from './stores';
+export { LruChainStateCache, SqliteChainStateCache } from './cache';
+export {
+  validateDatabase,
+  ensureValidDatabase,
+} from './validation/validateDatabase';
+export {
+  computeProvenanceHash,
+  verifyProvenanceHash,
+} from './provenance/provenance';
+export { DatabaseValidationError, HttpError } from './errors';
+export type { IMetadataStore } from './types/IMetadataStore';
+export type {
+  IChainStateCache,
+  CachedChainState,
+} from './types/IChainStateCache';
+export type {
+  TokenResolver,
+  TokenResolverContext,
+} from './types/TokenResolver';
+export type { ViewCall } from './types/ViewCall';
+export type { ContractStateMapping } from './types/ContractStateMapping';
+export type { Page } from './types/Page';
+export type { RarityStats } from './types/RarityStats';
+export type { TokenFilter } from './types/TokenFilter';
+export type { HttpCacheConfig } from './types/HttpCacheConfig';
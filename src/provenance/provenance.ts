@@ -0,0 +1,79 @@
+import { ethers } from 'ethers';
+import { IMetadataStore } from '../types/IMetadataStore';
+import { ProvenanceConfig } from '../types/ProvenanceConfig';
+import { Slug } from '../types/_';
+
+/**
+ * JSON with object keys sorted, so the hash does not depend on key order
+ */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sha256 = (text: string): string =>
+  ethers.utils.sha256(ethers.utils.toUtf8Bytes(text)).slice(2);
+
+/**
+ * sha256 of the concatenated sha256 hashes of the canonical JSON metadata
+ * of every artwork, in artwork index order. Missing artworks hash as null.
+ */
+export const computeProvenanceHash = (
+  store: IMetadataStore,
+  collectionName: Slug
+): string => {
+  const provenance = store.getCollection(collectionName)?.provenance;
+  if (!provenance) {
+    throw new Error(`Collection ${collectionName} has no provenance config`);
+  }
+  let hashes = '';
+  for (let artworkId = 0; artworkId < provenance.maxSupply; artworkId++) {
+    hashes += sha256(
+      canonicalJson(store.getToken(collectionName, artworkId) ?? null)
+    );
+  }
+  return `0x${sha256(hashes)}`;
+};
+
+export const verifyProvenanceHash = (
+  store: IMetadataStore,
+  collectionName: Slug
+): boolean => {
+  const hash = store.getCollection(collectionName)?.provenance?.hash;
+  const normalize = (value: string) => value.toLowerCase().replace(/^0x/, '');
+  return (
+    hash !== undefined &&
+    normalize(computeProvenanceHash(store, collectionName)) === normalize(hash)
+  );
+};
+
+/**
+ * The key of the artwork of the token, undefined if it can not be known yet
+ */
+export const getArtworkId = (
+  provenance: ProvenanceConfig | undefined,
+  tokenId: bigint,
+  startingIndex: number | undefined
+): bigint | undefined => {
+  if (!provenance) {
+    return tokenId;
+  }
+  if (startingIndex === undefined) {
+    return undefined;
+  }
+  return (tokenId + BigInt(startingIndex)) % BigInt(provenance.maxSupply);
+};
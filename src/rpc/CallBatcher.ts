@@ -0,0 +1,120 @@
+import { ethers } from 'ethers';
+import { RpcConfig } from '../types/RpcConfig';
+import Semaphore from './Semaphore';
+
+export const multicall3Abi = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+type PendingCall = {
+  contract: ethers.Contract;
+  method: string;
+  args: unknown[];
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+};
+
+/**
+ * Collects the view calls made within a window, and sends them as one Multicall3 aggregate3 call.
+ * Calls are made one by one without a window, or if the aggregate call fails.
+ */
+class CallBatcher {
+  private _pending: PendingCall[] = [];
+  private _timer?: ReturnType<typeof setTimeout>;
+  private _multicall?: ethers.Contract;
+
+  constructor(
+    private readonly _provider: ethers.providers.Provider,
+    private readonly _semaphore: Semaphore,
+    private readonly _options?: Pick<
+      RpcConfig,
+      'batchWindowMs' | 'maxBatchSize' | 'multicallAddress'
+    >
+  ) {}
+
+  call<T>(
+    contract: ethers.Contract,
+    method: string,
+    args: unknown[]
+  ): Promise<T> {
+    const { batchWindowMs = 0, maxBatchSize = 1 } = this._options || {};
+    if (batchWindowMs <= 0) {
+      return this._semaphore.run(() => contract[method](...args));
+    }
+    return new Promise((resolve, reject) => {
+      this._pending.push({
+        contract,
+        method,
+        args,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      if (this._pending.length >= maxBatchSize) {
+        this._flush();
+      } else if (!this._timer) {
+        this._timer = setTimeout(() => this._flush(), batchWindowMs);
+      }
+    });
+  }
+
+  private _flush() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+    const calls = this._pending;
+    this._pending = [];
+    if (calls.length === 1) {
+      this._callOne(calls[0]);
+    } else if (calls.length > 1) {
+      this._semaphore
+        .run(() => this._aggregate(calls))
+        .catch(() => calls.forEach((call) => this._callOne(call)));
+    }
+  }
+
+  private _callOne({ contract, method, args, resolve, reject }: PendingCall) {
+    this._semaphore.run(() => contract[method](...args)).then(resolve, reject);
+  }
+
+  private async _aggregate(calls: PendingCall[]) {
+    if (!this._multicall) {
+      this._multicall = new ethers.Contract(
+        this._options?.multicallAddress || '',
+        multicall3Abi,
+        this._provider
+      );
+    }
+    const results: { success: boolean; returnData: string }[] =
+      await this._multicall.callStatic.aggregate3(
+        calls.map(({ contract, method, args }) => ({
+          target: contract.address,
+          allowFailure: true,
+          callData: contract.interface.encodeFunctionData(method, args),
+        }))
+      );
+    results.forEach(({ success, returnData }, index) => {
+      const { contract, method, resolve, reject } = calls[index];
+      if (!success) {
+        reject(
+          Object.assign(new Error(`Call to ${method} reverted`), {
+            code: ethers.errors.CALL_EXCEPTION,
+          })
+        );
+        return;
+      }
+      try {
+        const result = contract.interface.decodeFunctionResult(
+          method,
+          returnData
+        );
+        // like contract calls, single return values are not wrapped
+        resolve(result.length === 1 ? result[0] : result);
+      } catch (e) {
+        reject(e);
+      }
+    });
+  }
+}
+
+export default CallBatcher;
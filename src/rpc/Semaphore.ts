@@ -0,0 +1,30 @@
+/**
+ * Limits the number of tasks running at once, 0 for no limit
+ */
+class Semaphore {
+  private _active = 0;
+  private readonly _waiting: (() => void)[] = [];
+
+  constructor(private readonly _max: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this._max > 0 && this._active >= this._max) {
+      // the finishing task hands its slot over, so active is not incremented here
+      await new Promise<void>((resolve) => this._waiting.push(resolve));
+    } else {
+      this._active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this._waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this._active--;
+      }
+    }
+  }
+}
+
+export default Semaphore;
@@ -0,0 +1,77 @@
+import { ethers } from 'ethers';
+
+/**
+ * notMinted: the call reverted, as ownerOf does for tokens not minted yet,
+ * transient: the provider failed, timed out or rate limited, the call may succeed when retried,
+ * fatal: anything else, like invalid responses or misconfigured contracts
+ */
+export type ErrorClass = 'notMinted' | 'transient' | 'fatal';
+
+const transientCodes: string[] = [
+  ethers.errors.SERVER_ERROR,
+  ethers.errors.TIMEOUT,
+  ethers.errors.NETWORK_ERROR,
+];
+
+/**
+ * JSON-RPC codes of nodes over their limits
+ */
+const transientRpcCodes = [429, -32005];
+
+/**
+ * Nodes answering a revert without revert data make ethers fail with SERVER_ERROR,
+ * the message of the node is then nested in the error, or in the response body
+ */
+const isRevert = (nested: unknown, body: unknown): boolean =>
+  /revert/i.test(String((nested as { message?: unknown })?.message)) ||
+  (typeof body === 'string' && /revert/i.test(body));
+
+export const classifyError = (error: unknown): ErrorClass => {
+  const {
+    code,
+    status,
+    message,
+    error: nested,
+    body,
+  } = (error || {}) as {
+    code?: unknown;
+    status?: unknown;
+    message?: unknown;
+    error?: unknown;
+    body?: unknown;
+  };
+  if (code === ethers.errors.CALL_EXCEPTION || isRevert(nested, body)) {
+    return 'notMinted';
+  }
+  if (
+    transientCodes.includes(code as string) ||
+    transientRpcCodes.includes(code as number) ||
+    status === 429 ||
+    /rate limit|too many requests|timeout/i.test(String(message))
+  ) {
+    return 'transient';
+  }
+  return 'fatal';
+};
+
+/**
+ * Retries the task on transient errors, doubling the delay after each attempt
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  retries: number,
+  delayMs: number
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (attempt >= retries || classifyError(e) !== 'transient') {
+        throw e;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, delayMs * 2 ** attempt)
+      );
+    }
+  }
+};
@@ -0,0 +1,51 @@
+import { ethers } from 'ethers';
+import { ApiKeys } from '../types/ApiKeys';
+import { NetworkProviderConfig } from '../types/NetworkProviderConfig';
+import { Network } from '../types/_';
+import { InvalidProviderConfigError } from '../errors';
+
+/**
+ * The configured provider of the network, or the default provider of ethers
+ */
+export const createProvider = (
+  network: Network,
+  config: NetworkProviderConfig | undefined,
+  apiKeys: ApiKeys | undefined
+): ethers.providers.Provider => {
+  if (config?.provider) {
+    return config.provider;
+  }
+  if (!config?.urls) {
+    return ethers.getDefaultProvider(network, apiKeys);
+  }
+  if (!config.urls.length) {
+    throw new InvalidProviderConfigError(
+      `No RPC urls configured for network ${network}`
+    );
+  }
+  const { chainId } = config;
+  const endpoints = config.urls.map((endpoint) =>
+    typeof endpoint === 'string' ? { url: endpoint } : endpoint
+  );
+  const providers = endpoints.map(({ url }) =>
+    // a known chain id spares the eth_chainId request before every call
+    chainId === undefined
+      ? new ethers.providers.JsonRpcProvider(url)
+      : new ethers.providers.StaticJsonRpcProvider(url, {
+          name: network,
+          chainId,
+        })
+  );
+  if (providers.length === 1 && config.quorum === undefined) {
+    return providers[0];
+  }
+  return new ethers.providers.FallbackProvider(
+    providers.map((provider, index) => ({
+      provider,
+      priority: endpoints[index].priority,
+      weight: endpoints[index].weight,
+      stallTimeout: endpoints[index].stallTimeout,
+    })),
+    config.quorum
+  );
+};
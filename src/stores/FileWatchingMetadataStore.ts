@@ -0,0 +1,125 @@
+import fs from 'fs';
+import { IMetadataStore } from '../types/IMetadataStore';
+import { TokenDatabase } from '../types/TokenDatabase';
+import { CollectionConfig } from '../types/CollectionConfig';
+import { TokenMetadata } from '../types/TokenMetadata';
+import { Slug, TokenId } from '../types/_';
+import { ApiConfig } from '../types/ApiConfig';
+import InMemoryMetadataStore from './InMemoryMetadataStore';
+import { ensureValidDatabase } from '../validation/validateDatabase';
+
+export type FileWatchingOptions = {
+  /**
+   * Polling interval of the file in milliseconds
+   */
+  interval: number;
+  /**
+   * Validation mode of the default validator, should match the validation of the api config
+   * so reloads are not validated more loosely than the startup.
+   * Defaults to lenient.
+   */
+  validation: ApiConfig['validation'];
+  /**
+   * Should throw if the database is not valid, in which case it is not swapped in.
+   * Defaults to the validation of the database in the validation mode.
+   */
+  validate: (database: TokenDatabase) => void;
+};
+
+/**
+ * Serves a TokenDatabase from a JSON file, and swaps in the new content whenever the file changes.
+ * Invalid content is rejected, and the previous version is served until the file is fixed.
+ */
+class FileWatchingMetadataStore implements IMetadataStore {
+  private _current: InMemoryMetadataStore;
+  private readonly _listeners = new Set<() => void>();
+  private readonly _options: FileWatchingOptions;
+  private readonly _onFileChange = (curr: fs.Stats, prev: fs.Stats) => {
+    if (curr.mtimeMs !== prev.mtimeMs) {
+      this.reload();
+    }
+  };
+
+  constructor(
+    private readonly _filePath: string,
+    options: Partial<FileWatchingOptions> = {}
+  ) {
+    const validation = options.validation || 'lenient';
+    this._options = {
+      interval: 1000,
+      validation,
+      validate: (database) =>
+        ensureValidDatabase(new InMemoryMetadataStore(database), validation),
+      ...options,
+    };
+    // the initial load throws, there is nothing to fall back to
+    this._current = new InMemoryMetadataStore(this._load());
+    fs.watchFile(
+      this._filePath,
+      { interval: this._options.interval, persistent: false },
+      this._onFileChange
+    );
+  }
+
+  getCollectionNames(): Slug[] {
+    return this._current.getCollectionNames();
+  }
+
+  getCollection(collectionName: Slug): CollectionConfig | undefined {
+    return this._current.getCollection(collectionName);
+  }
+
+  getToken(collectionName: Slug, tokenId: TokenId): TokenMetadata | undefined {
+    return this._current.getToken(collectionName, tokenId);
+  }
+
+  getTokenIds(collectionName: Slug): string[] {
+    return this._current.getTokenIds(collectionName);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this._listeners.add(listener);
+    return () => this._listeners.delete(listener);
+  }
+
+  /**
+   * Reads and validates the file, and swaps it in if valid.
+   * Returns whether the new content was swapped in.
+   */
+  reload(): boolean {
+    let database: TokenDatabase;
+    try {
+      database = this._load();
+    } catch (e) {
+      console.error(
+        `Failed to reload ${this._filePath}, serving the previous version`,
+        e
+      );
+      return false;
+    }
+    this._current = new InMemoryMetadataStore(database);
+    this._listeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (e) {
+        console.error(`Listener failed after reloading ${this._filePath}`, e);
+      }
+    });
+    return true;
+  }
+
+  /**
+   * Stops watching the file
+   */
+  close(): void {
+    fs.unwatchFile(this._filePath, this._onFileChange);
+  }
+
+  private _load(): TokenDatabase {
+    const database = JSON.parse(fs.readFileSync(this._filePath, 'utf8'));
+    this._options.validate(database);
+    return database;
+  }
+}
+
+export default FileWatchingMetadataStore;
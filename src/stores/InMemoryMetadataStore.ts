@@ -0,0 +1,44 @@
+import { IMetadataStore } from '../types/IMetadataStore';
+import { TokenDatabase } from '../types/TokenDatabase';
+import { CollectionConfig } from '../types/CollectionConfig';
+import { TokenMetadata } from '../types/TokenMetadata';
+import { Slug, TokenId } from '../types/_';
+
+/**
+ * Serves a fully loaded TokenDatabase from memory
+ */
+class InMemoryMetadataStore implements IMetadataStore {
+  constructor(private readonly _database: TokenDatabase) {}
+
+  getCollectionNames(): Slug[] {
+    return Object.keys(this._database);
+  }
+
+  /**
+   * Names come from the url, Object.prototype members are not collections
+   */
+  private _getCollection(
+    collectionName: Slug
+  ): TokenDatabase[Slug] | undefined {
+    return Object.prototype.hasOwnProperty.call(this._database, collectionName)
+      ? this._database[collectionName]
+      : undefined;
+  }
+
+  getCollection(collectionName: Slug): CollectionConfig | undefined {
+    return this._getCollection(collectionName);
+  }
+
+  getToken(collectionName: Slug, tokenId: TokenId): TokenMetadata | undefined {
+    const tokens = this._getCollection(collectionName)?.tokens;
+    return tokens && Object.prototype.hasOwnProperty.call(tokens, tokenId)
+      ? tokens[tokenId]
+      : undefined;
+  }
+
+  getTokenIds(collectionName: Slug): string[] {
+    return Object.keys(this._getCollection(collectionName)?.tokens || {});
+  }
+}
+
+export default InMemoryMetadataStore;
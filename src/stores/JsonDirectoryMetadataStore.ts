@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import omit from 'lodash/omit';
+import { IMetadataStore } from '../types/IMetadataStore';
+import { CollectionConfig } from '../types/CollectionConfig';
+import { TokenMetadata } from '../types/TokenMetadata';
+import { Slug, TokenId } from '../types/_';
+
+export type JsonDirectoryCollection = CollectionConfig & {
+  /**
+   * Directory holding one metadata file per token, e.g. 0.json, 1.json, placeholder.json
+   */
+  directory: string;
+};
+
+export type JsonDirectoryOptions = {
+  /**
+   * Extension of the metadata files, '' for files without extension
+   */
+  extension: string;
+};
+
+/**
+ * Reads token metadata on demand from a directory of JSON files per collection,
+ * the layout produced by most generative art tools
+ */
+class JsonDirectoryMetadataStore implements IMetadataStore {
+  private readonly _options: JsonDirectoryOptions;
+
+  constructor(
+    private readonly _collections: Record<Slug, JsonDirectoryCollection>,
+    options: Partial<JsonDirectoryOptions> = {}
+  ) {
+    this._options = { extension: '.json', ...options };
+  }
+
+  getCollectionNames(): Slug[] {
+    return Object.keys(this._collections);
+  }
+
+  /**
+   * Names come from the url, Object.prototype members are not collections
+   */
+  private _getCollection(
+    collectionName: Slug
+  ): JsonDirectoryCollection | undefined {
+    return Object.prototype.hasOwnProperty.call(
+      this._collections,
+      collectionName
+    )
+      ? this._collections[collectionName]
+      : undefined;
+  }
+
+  getCollection(collectionName: Slug): CollectionConfig | undefined {
+    const collection = this._getCollection(collectionName);
+    return collection && omit(collection, 'directory');
+  }
+
+  getToken(collectionName: Slug, tokenId: TokenId): TokenMetadata | undefined {
+    const collection = this._getCollection(collectionName);
+    const fileName = `${tokenId}${this._options.extension}`;
+    // token ids come from the url, never let them escape the directory
+    if (!collection || path.basename(fileName) !== fileName) {
+      return undefined;
+    }
+
+    let content: string;
+    try {
+      content = fs.readFileSync(
+        path.join(collection.directory, fileName),
+        'utf8'
+      );
+    } catch (e) {
+      if (e.code === 'ENOENT') {
+        return undefined;
+      }
+      throw e;
+    }
+    return JSON.parse(content);
+  }
+
+  getTokenIds(collectionName: Slug): string[] {
+    const collection = this._getCollection(collectionName);
+    if (!collection) {
+      return [];
+    }
+    const { extension } = this._options;
+    return fs
+      .readdirSync(collection.directory)
+      .filter((fileName) =>
+        extension ? fileName.endsWith(extension) : !path.extname(fileName)
+      )
+      .map((fileName) => fileName.slice(0, fileName.length - extension.length));
+  }
+}
+
+export default JsonDirectoryMetadataStore;
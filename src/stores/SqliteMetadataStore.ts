@@ -0,0 +1,95 @@
+import type { Database, Statement } from 'better-sqlite3';
+import { IMetadataStore } from '../types/IMetadataStore';
+import { TokenDatabase } from '../types/TokenDatabase';
+import { CollectionConfig } from '../types/CollectionConfig';
+import { TokenMetadata } from '../types/TokenMetadata';
+import { Slug, TokenId } from '../types/_';
+
+/**
+ * Reads collections and token metadata from a SQLite database, opened with better-sqlite3.
+ * Collection configs and token metadata are stored as JSON text.
+ */
+class SqliteMetadataStore implements IMetadataStore {
+  private readonly _statements: {
+    collectionNames: Statement;
+    collection: Statement;
+    token: Statement;
+    tokenIds: Statement;
+  };
+
+  constructor(private readonly _db: Database) {
+    this._db.exec(`
+      CREATE TABLE IF NOT EXISTS collections (
+        name TEXT PRIMARY KEY,
+        config TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS tokens (
+        collection TEXT NOT NULL,
+        token_id TEXT NOT NULL,
+        metadata TEXT NOT NULL,
+        PRIMARY KEY (collection, token_id)
+      );
+    `);
+    this._statements = {
+      collectionNames: this._db
+        .prepare('SELECT name FROM collections ORDER BY name')
+        .pluck(),
+      collection: this._db
+        .prepare('SELECT config FROM collections WHERE name = ?')
+        .pluck(),
+      token: this._db
+        .prepare(
+          'SELECT metadata FROM tokens WHERE collection = ? AND token_id = ?'
+        )
+        .pluck(),
+      tokenIds: this._db
+        .prepare('SELECT token_id FROM tokens WHERE collection = ?')
+        .pluck(),
+    };
+  }
+
+  getCollectionNames(): Slug[] {
+    return this._statements.collectionNames.all() as Slug[];
+  }
+
+  getCollection(collectionName: Slug): CollectionConfig | undefined {
+    const config = this._statements.collection.get(collectionName);
+    return config === undefined ? undefined : JSON.parse(config as string);
+  }
+
+  getToken(collectionName: Slug, tokenId: TokenId): TokenMetadata | undefined {
+    const metadata = this._statements.token.get(
+      collectionName,
+      String(tokenId)
+    );
+    return metadata === undefined ? undefined : JSON.parse(metadata as string);
+  }
+
+  getTokenIds(collectionName: Slug): string[] {
+    return this._statements.tokenIds.all(collectionName) as string[];
+  }
+
+  /**
+   * Writes a TokenDatabase into the tables, replacing collections and tokens with the same keys
+   */
+  import(database: TokenDatabase): void {
+    const insertCollection = this._db.prepare(
+      'INSERT OR REPLACE INTO collections (name, config) VALUES (?, ?)'
+    );
+    const insertToken = this._db.prepare(
+      'INSERT OR REPLACE INTO tokens (collection, token_id, metadata) VALUES (?, ?, ?)'
+    );
+    this._db.transaction(() => {
+      for (const [collectionName, { tokens, ...config }] of Object.entries(
+        database
+      )) {
+        insertCollection.run(collectionName, JSON.stringify(config));
+        for (const [tokenId, metadata] of Object.entries(tokens)) {
+          insertToken.run(collectionName, tokenId, JSON.stringify(metadata));
+        }
+      }
+    })();
+  }
+}
+
+export default SqliteMetadataStore;
@@ -0,0 +1,22 @@
+import { IMetadataStore } from '../types/IMetadataStore';
+import { TokenDatabase } from '../types/TokenDatabase';
+import InMemoryMetadataStore from './InMemoryMetadataStore';
+
+export { InMemoryMetadataStore };
+export { default as JsonDirectoryMetadataStore } from './JsonDirectoryMetadataStore';
+export { default as SqliteMetadataStore } from './SqliteMetadataStore';
+export { default as FileWatchingMetadataStore } from './FileWatchingMetadataStore';
+
+export const isMetadataStore = (
+  source: TokenDatabase | IMetadataStore
+): source is IMetadataStore =>
+  typeof (source as IMetadataStore).getToken === 'function' &&
+  typeof (source as IMetadataStore).getCollection === 'function';
+
+/**
+ * Wraps plain TokenDatabase objects in an in-memory store, passes stores through
+ */
+export const toMetadataStore = (
+  source: TokenDatabase | IMetadataStore
+): IMetadataStore =>
+  isMetadataStore(source) ? source : new InMemoryMetadataStore(source);
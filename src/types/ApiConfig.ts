@@ -1,8 +1,58 @@
 import { ApiKeys } from './ApiKeys';
+import { NetworkProviderConfig } from './NetworkProviderConfig';
+import { Network, Slug } from './_';
+import { UriRewriteConfig } from './UriRewriteConfig';
+import { RpcConfig } from './RpcConfig';
+import { IChainStateCache } from './IChainStateCache';
+import { TokenResolver } from './TokenResolver';
+import { RouterConfig } from './RouterConfig';
+import { HttpCacheConfig } from './HttpCacheConfig';
 
 export type ApiConfig = {
   ethers?: {
     apiKeys?: ApiKeys;
+    /**
+     * Providers by network, networks without one use the default provider of ethers
+     */
+    networks?: Record<Network, NetworkProviderConfig>;
   };
   totalSupplyCacheTTlSeconds: number;
+  /**
+   * Batching and concurrency of the contract calls, the default config batches calls made within 10ms
+   * into Multicall3 calls and runs up to 8 concurrent calls per provider.
+   * Calls are neither batched nor limited when it is unset.
+   */
+  rpc?: RpcConfig;
+  /**
+   * Where the chain state is cached, an in-memory LRU cache of 10000 entries if not set.
+   * A shared cache lets instances skip the lookups and the Transfer event indexing done by others.
+   */
+  cache?: IChainStateCache;
+  /**
+   * Resolvers of the collections, merging owner and view call based metadata into revealed tokens.
+   * Owners and view call results are cached for totalSupplyCacheTTlSeconds,
+   * owners in the chain state cache, view call results in an in-memory LRU cache of 10000 entries.
+   */
+  resolvers?: Record<Slug, TokenResolver[]>;
+  /**
+   * How the TokenDatabase is validated at startup:
+   * strict fails on any issue, lenient fails on errors and logs warnings, off skips validation
+   */
+  validation: 'strict' | 'lenient' | 'off';
+  /**
+   * Can be overridden per collection, and per request with ?uris=mode and ?gateway=name
+   */
+  uriRewrite: UriRewriteConfig;
+  /**
+   * Routes of createRouter, the handlers of api can be mounted manually instead
+   */
+  router: RouterConfig;
+  /**
+   * Whether the rarity score and rank of revealed tokens are served under the key
+   */
+  rarity: { inject: boolean; key: string };
+  /**
+   * Cache-Control and ETag headers of the responses
+   */
+  httpCache: HttpCacheConfig;
 };
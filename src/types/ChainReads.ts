@@ -0,0 +1,5 @@
+/**
+ * Filled in by the lookups made for one response,
+ * stale is set when any of them served a cached value as the provider failed
+ */
+export type ChainReads = { stale: boolean };
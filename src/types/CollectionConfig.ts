@@ -0,0 +1,6 @@
+import { TokenCollection } from './TokenCollection';
+
+/**
+ * Everything describing a collection, except its token metadata
+ */
+export type CollectionConfig = Omit<TokenCollection, 'tokens'>;
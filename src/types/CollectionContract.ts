@@ -1,5 +1,24 @@
 import { Address, Network } from './_';
 
 export type CollectionContract = {
-  deployments: Record<Network, { address: Address }>;
+  /**
+   * Token standard of the contract, ERC721 by default
+   */
+  standard?: 'ERC721' | 'ERC1155';
+  /**
+   * How ERC1155 tokens are checked for existence: totalSupply(id) > 0 or exists(id),
+   * totalSupply by default
+   */
+  existsMethod?: 'totalSupply' | 'exists';
+  deployments: Record<
+    Network,
+    {
+      address: Address;
+      /**
+       * Block the contract was deployed in, event queries start from here.
+       * Required to index Transfer events and to find the reveal event
+       */
+      startBlock?: number;
+    }
+  >;
 };
@@ -0,0 +1,17 @@
+import { Address, Network } from './_';
+
+/**
+ * Collection-wide storefront metadata, served as the contractURI() JSON
+ */
+export type CollectionMetadata = {
+  name?: string;
+  description?: string;
+  image?: string;
+  external_link?: string;
+  seller_fee_basis_points?: number;
+  fee_recipient?: Address;
+  /**
+   * Per network overrides, e.g. a different fee_recipient on testnets
+   */
+  networks?: Record<Network, Omit<CollectionMetadata, 'networks'>>;
+};
@@ -0,0 +1,16 @@
+import { ViewCall } from './ViewCall';
+
+/**
+ * View call of revealed tokens, and where its result goes in the served metadata
+ */
+export type ContractStateMapping = ViewCall & {
+  /**
+   * Trait type of the attribute the result is served as
+   */
+  attribute?: string;
+  /**
+   * Key of the token metadata holding variants by result, e.g. stages for tokens[id].stages[level].
+   * The selected variant is deep merged into the token, the variants are not served.
+   */
+  variants?: string;
+};
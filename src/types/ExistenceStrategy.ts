@@ -0,0 +1,21 @@
+/**
+ * How a collection decides that a token exists:
+ * token queries each token, ownerOf for ERC721 and the existsMethod for ERC1155,
+ * totalSupply reads the supply of sequentially minted ids from minTokenId on,
+ * transferEvents indexes the Transfer events minting and burning tokens
+ */
+export type ExistenceStrategy =
+  | { type: 'token' }
+  | {
+      type: 'totalSupply';
+      /**
+       * Name of the view function returning the number of minted tokens, defaults to totalSupply.
+       * Burns lower totalSupply, burnable collections need a counter of minted tokens.
+       */
+      method?: string;
+      /**
+       * Whether tokens can be burned, minted tokens are then checked with ownerOf as well
+       */
+      burnable?: boolean;
+    }
+  | { type: 'transferEvents' };
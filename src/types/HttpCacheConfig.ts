@@ -0,0 +1,18 @@
+export type HttpCacheConfig = {
+  /**
+   * Whether Cache-Control and ETag headers are set, and matching If-None-Match requests are answered with 304
+   */
+  enabled: boolean;
+  /**
+   * Max-age of revealed, minted tokens whose metadata can not change anymore, served as immutable
+   */
+  revealedMaxAgeSeconds: number;
+  /**
+   * Max-age of placeholders, capped by the next reveal time and the existence cache TTL
+   */
+  placeholderMaxAgeSeconds: number;
+  /**
+   * Max-age of the other responses: tokens with contract state, resolvers or rarity, collections, listings and stats
+   */
+  defaultMaxAgeSeconds: number;
+};
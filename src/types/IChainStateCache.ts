@@ -0,0 +1,43 @@
+import { Network, Slug } from './_';
+
+/**
+ * Values are JSON, so caches backed by shared storage can serialize them
+ */
+export type ChainStateValue =
+  | null
+  | boolean
+  | number
+  | string
+  | ChainStateValue[]
+  | { [key: string]: ChainStateValue };
+
+export type CachedChainState<T extends ChainStateValue = ChainStateValue> = {
+  value: T;
+  /**
+   * Seconds since the epoch, when the value was read from the chain
+   */
+  timestamp: number;
+};
+
+/**
+ * State read from the chain, keyed by deployment: existence, reveal, total supply, starting index
+ * and the tokens indexed from Transfer events along with the last indexed block.
+ * Implementations backed by shared storage let several instances reuse each other's lookups.
+ */
+export interface IChainStateCache {
+  get: (
+    collectionName: Slug,
+    networkName: Network,
+    key: string
+  ) => Promise<CachedChainState | undefined>;
+  set: (
+    collectionName: Slug,
+    networkName: Network,
+    key: string,
+    state: CachedChainState
+  ) => Promise<void>;
+  /**
+   * Drops the state of a deployment that was removed or changed
+   */
+  clear: (collectionName: Slug, networkName: Network) => Promise<void>;
+}
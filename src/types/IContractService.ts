@@ -1,9 +1,45 @@
-import { Network, Slug } from './_';
+import { Address, Network, Slug } from './_';
+import { ChainReads } from './ChainReads';
 
+/**
+ * Lookups report into reads whether they served a stale value
+ */
 export interface IContractService {
   exists: (
     collectionName: Slug,
     networkName: Network,
-    tokenId: number
+    tokenId: bigint,
+    reads?: ChainReads
   ) => Promise<boolean>;
+  isRevealed: (
+    collectionName: Slug,
+    networkName: Network,
+    reads?: ChainReads
+  ) => Promise<boolean>;
+  /**
+   * Whether the last call to the provider of the deployment failed, for health checks.
+   * Responses are flagged by the reads of their own lookups instead.
+   */
+  isDegraded?: (collectionName: Slug, networkName: Network) => boolean;
+  getStartingIndex: (
+    collectionName: Slug,
+    networkName: Network,
+    reads?: ChainReads
+  ) => Promise<number | undefined>;
+  getOwner?: (
+    collectionName: Slug,
+    networkName: Network,
+    tokenId: bigint,
+    reads?: ChainReads
+  ) => Promise<Address | undefined>;
+  /**
+   * Calls a view function of the contract, the signature has to be part of the contract abi
+   */
+  viewCall?: (
+    collectionName: Slug,
+    networkName: Network,
+    signature: string,
+    args: unknown[],
+    reads?: ChainReads
+  ) => Promise<unknown>;
 }
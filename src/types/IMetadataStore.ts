@@ -0,0 +1,18 @@
+import { Slug, TokenId } from './_';
+import { CollectionConfig } from './CollectionConfig';
+import { TokenMetadata } from './TokenMetadata';
+
+export interface IMetadataStore {
+  getCollectionNames: () => Slug[];
+  getCollection: (collectionName: Slug) => CollectionConfig | undefined;
+  getToken: (
+    collectionName: Slug,
+    tokenId: TokenId
+  ) => TokenMetadata | undefined;
+  getTokenIds: (collectionName: Slug) => string[];
+  /**
+   * Implemented by stores whose content can change at runtime,
+   * the listener is called after each change, returns an unsubscribe function
+   */
+  subscribe?: (listener: () => void) => () => void;
+}
@@ -0,0 +1,28 @@
+import { ethers } from 'ethers';
+
+export type RpcEndpoint = {
+  url: string;
+  /**
+   * Lower priorities are asked first
+   */
+  priority?: number;
+  weight?: number;
+  stallTimeout?: number;
+};
+
+/**
+ * Provider of a network, a provider instance, or RPC urls.
+ * Several urls are wrapped in a FallbackProvider, agreeing on results by quorum.
+ */
+export type NetworkProviderConfig = {
+  provider?: ethers.providers.Provider;
+  urls?: (string | RpcEndpoint)[];
+  /**
+   * Chain id of the urls, detected from the node if not set
+   */
+  chainId?: number;
+  /**
+   * Weight of the endpoints that have to agree, defaults to half of the total weight
+   */
+  quorum?: number;
+};
@@ -0,0 +1,7 @@
+/**
+ * Page of a listing, next is the cursor of the following page, null on the last page
+ */
+export type Page<T> = {
+  items: T[];
+  next: string | null;
+};
@@ -0,0 +1,16 @@
+import { TokenSelector } from './TokenSelector';
+import { TokenMetadata } from './TokenMetadata';
+
+/**
+ * Pre-reveal metadata served for the selected tokens,
+ * a variant without tokens, range and trait matches every token.
+ * Strings of the metadata may refer to {{tokenId}}.
+ */
+export type PlaceholderVariant = TokenSelector & {
+  /**
+   * Selects the tokens having this attribute, e.g. a publicly known tier.
+   * Not supported for collections with a provenance, and never selects reserved tokens.
+   */
+  trait?: { trait_type: string; value: unknown };
+  metadata: TokenMetadata;
+};
@@ -0,0 +1,21 @@
+/**
+ * Provenance pattern: token metadata is committed as a hash before mint,
+ * and after sell-out tokenId maps to artwork (tokenId + startingIndex) % maxSupply.
+ * Tokens of the collection are keyed by artwork index.
+ */
+export type ProvenanceConfig = {
+  maxSupply: number;
+  /**
+   * The starting index once it is known, otherwise it is read from the contract
+   */
+  startingIndex?: number;
+  /**
+   * View function returning the starting index, defaults to startingIndex.
+   * A returned 0 is treated as not yet set.
+   */
+  startingIndexMethod?: string;
+  /**
+   * Provenance hash committed before mint, verified at startup
+   */
+  hash?: string;
+};
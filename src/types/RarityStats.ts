@@ -0,0 +1,14 @@
+/**
+ * Trait statistics of the revealed tokens of a collection
+ */
+export type RarityStats = {
+  tokenCount: number;
+  /**
+   * Trait type->value->number of tokens with the trait, and their share of the tokens
+   */
+  traits: Record<string, Record<string, { count: number; frequency: number }>>;
+  /**
+   * Token id->sum of the inverse frequencies of the traits of the token, and its rank by score
+   */
+  tokens: Record<string, { score: number; rank: number }>;
+};
@@ -0,0 +1,16 @@
+import { TokenSelector } from './TokenSelector';
+
+/**
+ * Reveal schedule of the selected tokens, on top of the reveal of the collection
+ */
+export type RevealPhase = TokenSelector & {
+  revealTime?: number;
+  /**
+   * Manual reveal switch, takes precedence over revealTime
+   */
+  revealed?: boolean;
+  /**
+   * Token served for the unrevealed tokens of the phase, defaults to placeholder
+   */
+  placeholder?: string;
+};
@@ -0,0 +1,22 @@
+/**
+ * How a collection decides that it is revealed:
+ * time compares revealTime to the current time,
+ * contract calls a view function returning a bool,
+ * event waits for an event emitted by the reveal transaction
+ */
+export type RevealStrategy =
+  | { type: 'time' }
+  | {
+      type: 'contract';
+      /**
+       * Name of the view function, defaults to revealed
+       */
+      method?: string;
+    }
+  | {
+      type: 'event';
+      /**
+       * Signature of the event, defaults to Reveal()
+       */
+      event?: string;
+    };
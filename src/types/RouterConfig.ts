@@ -0,0 +1,28 @@
+import { Network, Slug } from './_';
+
+/**
+ * Routes of the express Router created by createRouter
+ */
+export type RouterConfig = {
+  /**
+   * Prepended to every route, e.g. /v1
+   */
+  prefix: string;
+  healthRoute: string;
+  /**
+   * Lists the collections and their deployments
+   */
+  listRoute: string;
+  /**
+   * Routes of collections served under paths of their own, without the :collectionName param.
+   * Routes without the :networkName param serve the given network.
+   */
+  collectionRoutes: Record<
+    Slug,
+    { token?: string; collection?: string; network?: Network }
+  >;
+  /**
+   * Whether requests matching no route are answered with 404, disable it if the router is not mounted last
+   */
+  notFound: boolean;
+};
@@ -0,0 +1,30 @@
+import { Address } from './_';
+
+export type RpcConfig = {
+  /**
+   * Per-token calls made within the window are batched into one Multicall3 call, 0 disables batching
+   */
+  batchWindowMs: number;
+  maxBatchSize: number;
+  multicallAddress: Address;
+  /**
+   * Maximum number of concurrent calls per provider, 0 for no limit
+   */
+  maxConcurrency: number;
+  /**
+   * Retries of calls failing with transient errors, the delay doubles after each retry
+   */
+  retries: number;
+  retryDelayMs: number;
+  /**
+   * Whether cached values are served while the provider keeps failing, up to maxStaleSeconds old.
+   * Requests fail with 503 when no cached value can be served.
+   */
+  serveStale: boolean;
+  maxStaleSeconds?: number;
+  /**
+   * Maximum number of blocks per log query, providers cap the range and the size of the results.
+   * 2000 if not set.
+   */
+  maxBlockRange?: number;
+};
@@ -1,8 +1,52 @@
 import { CollectionContract } from './CollectionContract';
+import { TokenMetadata } from './TokenMetadata';
+import { CollectionMetadata } from './CollectionMetadata';
+import { RevealStrategy } from './RevealStrategy';
+import { ExistenceStrategy } from './ExistenceStrategy';
+import { ProvenanceConfig } from './ProvenanceConfig';
+import { RevealPhase } from './RevealPhase';
+import { TokenRange } from './TokenRange';
+import { TokenId } from './_';
+import { PlaceholderVariant } from './PlaceholderVariant';
+import { UriRewriteConfig } from './UriRewriteConfig';
+import { ContractStateMapping } from './ContractStateMapping';
 
 export type TokenCollection = {
   contract: CollectionContract;
+  collection?: CollectionMetadata;
+  reveal?: RevealStrategy;
+  /**
+   * Defaults to token
+   */
+  existence?: ExistenceStrategy;
   revealTime?: number;
-  reservedTokens?: number[];
-  tokens: Record<string, Record<string, unknown>>;
+  revealPhases?: RevealPhase[];
+  /**
+   * Token ids, or ranges of token ids never revealed
+   */
+  reservedTokens?: (TokenId | TokenRange)[];
+  provenance?: ProvenanceConfig;
+  /**
+   * Placeholder variants by name, the first matching one is served for unrevealed tokens
+   */
+  placeholders?: Record<string, PlaceholderVariant>;
+  /**
+   * Deep merged into every revealed token, strings of tokens and defaults
+   * may refer to {{tokenId}}, {{artworkId}}, {{collection}} and {{network}}
+   */
+  defaults?: TokenMetadata;
+  uriRewrite?: Partial<Omit<UriRewriteConfig, 'gateways'>>;
+  /**
+   * Lowest token id of the collection, 0 by default
+   */
+  minTokenId?: TokenId;
+  /**
+   * Number of token ids from minTokenId on, ids outside the bounds are not looked up on chain
+   */
+  maxSupply?: TokenId;
+  /**
+   * Contract state of revealed tokens by name, mapped into attributes or variants of the token
+   */
+  contractState?: Record<string, ContractStateMapping>;
+  tokens: Record<string, TokenMetadata>;
 };
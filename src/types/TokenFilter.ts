@@ -0,0 +1,17 @@
+/**
+ * Filter of the token search, tokens have to match every part of it
+ */
+export type TokenFilter = {
+  /**
+   * Trait type->accepted values
+   */
+  traits: Record<string, string[]>;
+  /**
+   * Trait type->inclusive bounds of numeric traits
+   */
+  ranges: Record<string, { min?: number; max?: number }>;
+  /**
+   * Case insensitive part of the name
+   */
+  name?: string;
+};
@@ -0,0 +1 @@
+export type TokenMetadata = Record<string, unknown>;
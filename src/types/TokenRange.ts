@@ -0,0 +1,9 @@
+import { TokenId } from './_';
+
+/**
+ * Inclusive range of token ids
+ */
+export type TokenRange = {
+  from: TokenId;
+  to: TokenId;
+};
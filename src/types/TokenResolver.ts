@@ -0,0 +1,28 @@
+import { Address, Network, Slug } from './_';
+import { TokenMetadata } from './TokenMetadata';
+import { ViewCall } from './ViewCall';
+
+export type TokenResolverContext = {
+  collectionName: Slug;
+  networkName: Network;
+  tokenId: bigint;
+  /**
+   * Current holder of ERC721 tokens, undefined for ERC1155 tokens
+   */
+  owner: Address | undefined;
+  /**
+   * Results of the view calls of the resolver by name, as returned by ethers
+   */
+  calls: Record<string, unknown>;
+  metadata: TokenMetadata;
+};
+
+/**
+ * Computes metadata from on-chain state, the output is merged into the served metadata
+ */
+export type TokenResolver = {
+  calls?: Record<string, ViewCall>;
+  resolve: (
+    context: TokenResolverContext
+  ) => TokenMetadata | Promise<TokenMetadata>;
+};
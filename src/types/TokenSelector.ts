@@ -0,0 +1,9 @@
+import { TokenId } from './_';
+import { TokenRange } from './TokenRange';
+
+/**
+ * Selects tokens by listed ids and/or an inclusive id range
+ */
+export type TokenSelector = Partial<TokenRange> & {
+  tokens?: TokenId[];
+};
@@ -0,0 +1,20 @@
+/**
+ * Rewriting of ipfs:// and ar:// URIs of the served metadata to HTTP gateways
+ */
+export type UriRewriteConfig = {
+  /**
+   * raw serves the URIs as stored, gateway rewrites them,
+   * both rewrites them and keeps the raw URI under a suffixed key
+   */
+  mode: 'raw' | 'gateway' | 'both';
+  ipfsGateway: string;
+  arweaveGateway: string;
+  /**
+   * Suffix of the key holding the raw URI in both mode, e.g. image_raw
+   */
+  rawKeySuffix: string;
+  /**
+   * Named gateways, selectable per request with ?gateway=name
+   */
+  gateways: Record<string, { ipfsGateway?: string; arweaveGateway?: string }>;
+};
@@ -0,0 +1,11 @@
+export type ValidationIssue = {
+  /**
+   * Location of the problem in the TokenDatabase, e.g. collection.tokens[42].image
+   */
+  path: string;
+  message: string;
+  /**
+   * Warnings are only fatal in strict mode
+   */
+  severity: 'error' | 'warning';
+};
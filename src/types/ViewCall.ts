@@ -0,0 +1,13 @@
+/**
+ * Contract view call made for the token resolvers
+ */
+export type ViewCall = {
+  /**
+   * Human-readable abi of the function, e.g. function stakedAt(uint256) view returns (uint256)
+   */
+  signature: string;
+  /**
+   * The strings {{tokenId}} and {{owner}} are replaced with the token id and the owner, defaults to [{{tokenId}}]
+   */
+  args?: unknown[];
+};
@@ -0,0 +1,663 @@
+import { ethers } from 'ethers';
+import { IMetadataStore } from '../types/IMetadataStore';
+import { ApiConfig } from '../types/ApiConfig';
+import { ValidationIssue } from '../types/ValidationIssue';
+import { DatabaseValidationError } from '../errors';
+import { Slug } from '../types/_';
+import { applyDefaults } from '../api/defaults';
+import { isTokenId } from '../api/tokenIds';
+import {
+  computeProvenanceHash,
+  verifyProvenanceHash,
+} from '../provenance/provenance';
+
+/**
+ * Properties of a TokenCollection, anything else is most likely a typo
+ */
+const COLLECTION_KEYS = [
+  'contract',
+  'collection',
+  'reveal',
+  'existence',
+  'revealTime',
+  'revealPhases',
+  'reservedTokens',
+  'provenance',
+  'placeholders',
+  'defaults',
+  'uriRewrite',
+  'minTokenId',
+  'maxSupply',
+  'contractState',
+  'tokens',
+];
+
+const STRING_METADATA_KEYS = ['name', 'description', 'image'];
+
+const NUMERIC_DISPLAY_TYPES = [
+  'number',
+  'boost_number',
+  'boost_percentage',
+  'date',
+];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const joinPath = (path: string, key: string | number): string => {
+  if (typeof key === 'number' || /^\d+$/.test(key)) {
+    return `${path}[${key}]`;
+  }
+  if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return path ? `${path}.${key}` : key;
+  }
+  return `${path}[${JSON.stringify(key)}]`;
+};
+
+class IssueList {
+  readonly issues: ValidationIssue[] = [];
+
+  error(path: string, message: string) {
+    this.issues.push({ path, message, severity: 'error' });
+  }
+
+  warning(path: string, message: string) {
+    this.issues.push({ path, message, severity: 'warning' });
+  }
+}
+
+const validateAddress = (
+  list: IssueList,
+  path: string,
+  address: unknown
+): void => {
+  if (typeof address !== 'string' || !ethers.utils.isAddress(address)) {
+    list.error(path, `Not a valid address: ${address}`);
+  } else if (address !== ethers.utils.getAddress(address)) {
+    list.warning(
+      path,
+      `Address is not checksummed, expected ${ethers.utils.getAddress(address)}`
+    );
+  }
+};
+
+const validateTokenMetadata = (
+  list: IssueList,
+  path: string,
+  metadata: unknown
+): void => {
+  if (!isPlainObject(metadata)) {
+    list.error(path, 'Token metadata must be an object');
+    return;
+  }
+  for (const key of STRING_METADATA_KEYS) {
+    if (metadata[key] === undefined) {
+      list.warning(joinPath(path, key), `Missing ${key}`);
+    } else if (typeof metadata[key] !== 'string') {
+      list.error(joinPath(path, key), `${key} must be a string`);
+    }
+  }
+  if (metadata.attributes === undefined) {
+    return;
+  }
+  const attributesPath = joinPath(path, 'attributes');
+  if (!Array.isArray(metadata.attributes)) {
+    list.error(attributesPath, 'attributes must be an array');
+    return;
+  }
+  metadata.attributes.forEach((attribute, index) => {
+    const attributePath = joinPath(attributesPath, index);
+    if (!isPlainObject(attribute)) {
+      list.error(attributePath, 'Attribute must be an object');
+      return;
+    }
+    if (attribute.value === undefined) {
+      list.error(joinPath(attributePath, 'value'), 'Attribute has no value');
+    }
+    for (const key of ['trait_type', 'display_type']) {
+      if (attribute[key] !== undefined && typeof attribute[key] !== 'string') {
+        list.error(joinPath(attributePath, key), `${key} must be a string`);
+      }
+    }
+    if (
+      NUMERIC_DISPLAY_TYPES.includes(attribute.display_type as string) &&
+      typeof attribute.value !== 'number'
+    ) {
+      list.error(
+        joinPath(attributePath, 'value'),
+        `Attribute with display_type ${attribute.display_type} must have a numeric value`
+      );
+    }
+  });
+};
+
+const validateCollectionMetadata = (
+  list: IssueList,
+  path: string,
+  metadata: unknown,
+  deployments: Record<string, unknown>
+): void => {
+  if (!isPlainObject(metadata)) {
+    list.error(path, 'Collection metadata must be an object');
+    return;
+  }
+  const { networks, ...base } = metadata;
+  const variants: [string, unknown][] = [[path, base]];
+  if (networks !== undefined && !isPlainObject(networks)) {
+    list.error(joinPath(path, 'networks'), 'networks must be an object');
+  } else {
+    for (const [network, overrides] of Object.entries(networks || {})) {
+      const networkPath = joinPath(joinPath(path, 'networks'), network);
+      if (!deployments[network]) {
+        list.warning(
+          networkPath,
+          `Collection is not deployed to network ${network}`
+        );
+      }
+      variants.push([networkPath, overrides]);
+    }
+  }
+
+  for (const [variantPath, variant] of variants) {
+    if (!isPlainObject(variant)) {
+      list.error(variantPath, 'Collection metadata must be an object');
+      continue;
+    }
+    for (const key of ['name', 'description', 'image', 'external_link']) {
+      if (variant[key] !== undefined && typeof variant[key] !== 'string') {
+        list.error(joinPath(variantPath, key), `${key} must be a string`);
+      }
+    }
+    const fee = variant.seller_fee_basis_points;
+    if (
+      fee !== undefined &&
+      (!Number.isInteger(fee) || (fee as number) < 0 || (fee as number) > 10000)
+    ) {
+      list.error(
+        joinPath(variantPath, 'seller_fee_basis_points'),
+        'seller_fee_basis_points must be an integer between 0 and 10000'
+      );
+    }
+    if (variant.fee_recipient !== undefined) {
+      validateAddress(
+        list,
+        joinPath(variantPath, 'fee_recipient'),
+        variant.fee_recipient
+      );
+    }
+  }
+};
+
+const validateProvenance = (
+  store: IMetadataStore,
+  list: IssueList,
+  path: string,
+  collectionName: Slug
+): void => {
+  const provenance = store.getCollection(collectionName)?.provenance as unknown;
+  if (!isPlainObject(provenance)) {
+    list.error(path, 'provenance must be an object');
+    return;
+  }
+  const { maxSupply, startingIndex, hash } = provenance;
+  if (!Number.isInteger(maxSupply) || (maxSupply as number) <= 0) {
+    list.error(
+      joinPath(path, 'maxSupply'),
+      'maxSupply must be a positive integer'
+    );
+    return;
+  }
+  if (
+    startingIndex !== undefined &&
+    (!Number.isInteger(startingIndex) ||
+      (startingIndex as number) < 0 ||
+      (startingIndex as number) >= (maxSupply as number))
+  ) {
+    list.error(
+      joinPath(path, 'startingIndex'),
+      'startingIndex must be an integer between 0 and maxSupply - 1'
+    );
+  }
+  if (hash !== undefined) {
+    if (typeof hash !== 'string') {
+      list.error(joinPath(path, 'hash'), 'hash must be a string');
+    } else if (!verifyProvenanceHash(store, collectionName)) {
+      list.error(
+        joinPath(path, 'hash'),
+        `Provenance hash mismatch, the token metadata hashes to ${computeProvenanceHash(
+          store,
+          collectionName
+        )}`
+      );
+    }
+  }
+};
+
+const validateTokenSelector = (
+  list: IssueList,
+  path: string,
+  selector: unknown,
+  selectsAll = false
+): void => {
+  if (!isPlainObject(selector)) {
+    list.error(path, 'Token selector must be an object');
+    return;
+  }
+  const { tokens, from, to } = selector;
+  if (
+    tokens !== undefined &&
+    (!Array.isArray(tokens) || !tokens.every(isTokenId))
+  ) {
+    list.error(joinPath(path, 'tokens'), 'tokens must be an array of ids');
+  }
+  for (const [key, value] of Object.entries({ from, to })) {
+    if (value !== undefined && !isTokenId(value)) {
+      list.error(joinPath(path, key), `${key} must be a token id`);
+    }
+  }
+  if (isTokenId(from) && isTokenId(to) && BigInt(from) > BigInt(to)) {
+    list.error(path, 'from must not be greater than to');
+  }
+  if (
+    !selectsAll &&
+    tokens === undefined &&
+    from === undefined &&
+    to === undefined
+  ) {
+    list.error(path, 'Selects no tokens, set tokens, from or to');
+  }
+};
+
+const validateRevealPhase = (
+  store: IMetadataStore,
+  list: IssueList,
+  path: string,
+  collectionName: Slug,
+  phase: unknown
+): void => {
+  validateTokenSelector(list, path, phase);
+  if (!isPlainObject(phase)) {
+    return;
+  }
+  const { revealTime, revealed, placeholder } = phase;
+  if (revealTime !== undefined && !Number.isFinite(revealTime)) {
+    list.error(
+      joinPath(path, 'revealTime'),
+      'revealTime must be a timestamp in milliseconds'
+    );
+  }
+  if (revealed !== undefined && typeof revealed !== 'boolean') {
+    list.error(joinPath(path, 'revealed'), 'revealed must be a boolean');
+  }
+  if (
+    placeholder !== undefined &&
+    (typeof placeholder !== 'string' ||
+      !hasPlaceholder(store, collectionName, placeholder))
+  ) {
+    list.error(
+      joinPath(path, 'placeholder'),
+      `Placeholder ${placeholder} is not in placeholders or tokens`
+    );
+  }
+};
+
+const hasPlaceholder = (
+  store: IMetadataStore,
+  collectionName: Slug,
+  placeholderId: string
+): boolean =>
+  Boolean(
+    store.getCollection(collectionName)?.placeholders?.[placeholderId] ||
+      store.getToken(collectionName, placeholderId)
+  );
+
+const validatePlaceholderVariant = (
+  list: IssueList,
+  path: string,
+  variant: unknown,
+  hasProvenance: boolean
+): void => {
+  validateTokenSelector(list, path, variant, true);
+  if (!isPlainObject(variant)) {
+    return;
+  }
+  const { trait, metadata } = variant;
+  if (
+    trait !== undefined &&
+    (!isPlainObject(trait) || typeof trait.trait_type !== 'string')
+  ) {
+    list.error(
+      joinPath(path, 'trait'),
+      'trait must be an object with a trait_type and a value'
+    );
+  }
+  if (trait !== undefined && hasProvenance) {
+    // tokens are stored by artwork id, the trait of a token is unknown before the reveal
+    list.error(
+      joinPath(path, 'trait'),
+      'trait can not select placeholders of collections with a provenance'
+    );
+  }
+  validateTokenMetadata(list, joinPath(path, 'metadata'), metadata);
+};
+
+/**
+ * Placeholder variants selecting every token serve as the default placeholder
+ */
+const hasDefaultPlaceholder = (
+  store: IMetadataStore,
+  collectionName: Slug
+): boolean =>
+  Boolean(store.getToken(collectionName, 'placeholder')) ||
+  Object.values(store.getCollection(collectionName)?.placeholders || {}).some(
+    (variant) =>
+      isPlainObject(variant) &&
+      ['tokens', 'from', 'to', 'trait'].every(
+        (key) => variant[key as keyof typeof variant] === undefined
+      )
+  );
+
+const validateCollection = (
+  store: IMetadataStore,
+  list: IssueList,
+  collectionName: Slug
+): void => {
+  const path = joinPath('', collectionName);
+  const collection = store.getCollection(collectionName);
+  if (!isPlainObject(collection)) {
+    list.error(path, 'Collection must be an object');
+    return;
+  }
+
+  for (const key of Object.keys(collection)) {
+    if (!COLLECTION_KEYS.includes(key)) {
+      list.warning(joinPath(path, key), `Unknown collection property ${key}`);
+    }
+  }
+
+  const deploymentsPath = joinPath(joinPath(path, 'contract'), 'deployments');
+  const deployments = collection.contract?.deployments;
+  if (!isPlainObject(deployments)) {
+    list.error(deploymentsPath, 'Collection has no contract deployments');
+  } else {
+    for (const [network, deployment] of Object.entries(deployments)) {
+      validateAddress(
+        list,
+        joinPath(joinPath(deploymentsPath, network), 'address'),
+        deployment?.address
+      );
+    }
+  }
+
+  const { standard, existsMethod } = collection.contract || {};
+  if (standard !== undefined && !['ERC721', 'ERC1155'].includes(standard)) {
+    list.error(
+      joinPath(joinPath(path, 'contract'), 'standard'),
+      'Contract standard must be one of ERC721 or ERC1155'
+    );
+  }
+  if (
+    existsMethod !== undefined &&
+    !['totalSupply', 'exists'].includes(existsMethod)
+  ) {
+    list.error(
+      joinPath(joinPath(path, 'contract'), 'existsMethod'),
+      'existsMethod must be one of totalSupply or exists'
+    );
+  } else if (existsMethod !== undefined && standard !== 'ERC1155') {
+    list.warning(
+      joinPath(joinPath(path, 'contract'), 'existsMethod'),
+      'existsMethod is only used by ERC1155 contracts'
+    );
+  }
+
+  if (collection.collection !== undefined) {
+    validateCollectionMetadata(
+      list,
+      joinPath(path, 'collection'),
+      collection.collection,
+      isPlainObject(deployments) ? deployments : {}
+    );
+  }
+
+  const { reveal, revealTime, reservedTokens } = collection;
+  if (
+    reveal !== undefined &&
+    !['time', 'contract', 'event'].includes(
+      (reveal as { type?: unknown })?.type as string
+    )
+  ) {
+    list.error(
+      joinPath(joinPath(path, 'reveal'), 'type'),
+      'Reveal type must be one of time, contract or event'
+    );
+  }
+  const { existence } = collection;
+  const existenceType = (existence as { type?: unknown } | undefined)?.type;
+  if (
+    existence !== undefined &&
+    !['token', 'totalSupply', 'transferEvents'].includes(
+      existenceType as string
+    )
+  ) {
+    list.error(
+      joinPath(joinPath(path, 'existence'), 'type'),
+      'Existence type must be one of token, totalSupply or transferEvents'
+    );
+  } else if (
+    existenceType !== undefined &&
+    existenceType !== 'token' &&
+    standard === 'ERC1155'
+  ) {
+    list.error(
+      joinPath(joinPath(path, 'existence'), 'type'),
+      'ERC1155 tokens can only be checked by token'
+    );
+  }
+  const queriedEvents = [
+    ...(existenceType === 'transferEvents' ? ['Transfer events'] : []),
+    ...((reveal as { type?: unknown } | undefined)?.type === 'event'
+      ? ['the reveal event']
+      : []),
+  ];
+  if (queriedEvents.length && isPlainObject(deployments)) {
+    for (const [network, deployment] of Object.entries(deployments)) {
+      const startBlock = deployment?.startBlock as unknown;
+      if (
+        typeof startBlock !== 'number' ||
+        !Number.isInteger(startBlock) ||
+        startBlock < 0
+      ) {
+        // querying from the genesis block takes millions of log queries
+        list.error(
+          joinPath(joinPath(deploymentsPath, network), 'startBlock'),
+          `startBlock, the block the contract was deployed at, is required to query ${queriedEvents.join(
+            ' and '
+          )}`
+        );
+      }
+    }
+  }
+  if (
+    revealTime !== undefined &&
+    (typeof revealTime !== 'number' || !Number.isFinite(revealTime))
+  ) {
+    list.error(
+      joinPath(path, 'revealTime'),
+      'revealTime must be a timestamp in milliseconds'
+    );
+  }
+
+  const contractStatePath = joinPath(path, 'contractState');
+  const { contractState } = collection;
+  if (contractState !== undefined && !isPlainObject(contractState)) {
+    list.error(contractStatePath, 'contractState must be an object');
+  } else {
+    for (const [name, mapping] of Object.entries(contractState || {})) {
+      const mappingPath = joinPath(contractStatePath, name);
+      if (
+        typeof mapping?.signature !== 'string' ||
+        !mapping.signature.includes('(')
+      ) {
+        list.error(
+          joinPath(mappingPath, 'signature'),
+          'signature must be a function signature, e.g. function getLevel(uint256) view returns (uint256)'
+        );
+      }
+      if (mapping?.args !== undefined && !Array.isArray(mapping.args)) {
+        list.error(joinPath(mappingPath, 'args'), 'args must be an array');
+      }
+      for (const key of ['attribute', 'variants'] as const) {
+        if (mapping?.[key] !== undefined && typeof mapping[key] !== 'string') {
+          list.error(joinPath(mappingPath, key), `${key} must be a string`);
+        }
+      }
+      if (mapping?.attribute === undefined && mapping?.variants === undefined) {
+        list.warning(
+          mappingPath,
+          'Contract state is neither served as an attribute nor selects variants'
+        );
+      }
+    }
+  }
+
+  for (const key of ['minTokenId', 'maxSupply'] as const) {
+    if (collection[key] !== undefined && !isTokenId(collection[key])) {
+      list.error(joinPath(path, key), `${key} must be a token id`);
+    }
+  }
+
+  const reservedPath = joinPath(path, 'reservedTokens');
+  if (reservedTokens !== undefined && !Array.isArray(reservedTokens)) {
+    list.error(reservedPath, 'reservedTokens must be an array');
+  } else {
+    reservedTokens?.forEach((reserved, index) => {
+      if (!isTokenId(reserved)) {
+        validateTokenSelector(list, joinPath(reservedPath, index), reserved);
+      } else if (!store.getToken(collectionName, reserved)) {
+        list.error(
+          joinPath(reservedPath, index),
+          `Reserved token ${reserved} is not in tokens`
+        );
+      }
+    });
+  }
+
+  const phasesPath = joinPath(path, 'revealPhases');
+  const { revealPhases } = collection;
+  if (revealPhases !== undefined && !Array.isArray(revealPhases)) {
+    list.error(phasesPath, 'revealPhases must be an array');
+  } else {
+    revealPhases?.forEach((phase, index) =>
+      validateRevealPhase(
+        store,
+        list,
+        joinPath(phasesPath, index),
+        collectionName,
+        phase
+      )
+    );
+  }
+
+  const placeholdersPath = joinPath(path, 'placeholders');
+  const { placeholders } = collection;
+  if (placeholders !== undefined && !isPlainObject(placeholders)) {
+    list.error(placeholdersPath, 'placeholders must be an object');
+  } else {
+    for (const [placeholderId, variant] of Object.entries(placeholders || {})) {
+      validatePlaceholderVariant(
+        list,
+        joinPath(placeholdersPath, placeholderId),
+        variant,
+        collection.provenance !== undefined
+      );
+    }
+  }
+
+  if (collection.provenance !== undefined) {
+    validateProvenance(
+      store,
+      list,
+      joinPath(path, 'provenance'),
+      collectionName
+    );
+  }
+
+  const { uriRewrite } = collection;
+  if (uriRewrite !== undefined) {
+    if (!isPlainObject(uriRewrite)) {
+      list.error(joinPath(path, 'uriRewrite'), 'uriRewrite must be an object');
+    } else if (
+      uriRewrite.mode !== undefined &&
+      !['raw', 'gateway', 'both'].includes(uriRewrite.mode)
+    ) {
+      list.error(
+        joinPath(joinPath(path, 'uriRewrite'), 'mode'),
+        'mode must be one of raw, gateway or both'
+      );
+    }
+  }
+
+  const { defaults } = collection;
+  if (defaults !== undefined && !isPlainObject(defaults)) {
+    list.error(joinPath(path, 'defaults'), 'defaults must be an object');
+  }
+
+  const tokensPath = joinPath(path, 'tokens');
+  for (const tokenId of store.getTokenIds(collectionName)) {
+    const metadata = store.getToken(collectionName, tokenId);
+    validateTokenMetadata(
+      list,
+      joinPath(tokensPath, tokenId),
+      isPlainObject(metadata) && isPlainObject(defaults)
+        ? applyDefaults(defaults, metadata)
+        : metadata
+    );
+  }
+
+  if (
+    (revealTime !== undefined ||
+      (reveal && reveal.type !== 'time') ||
+      (Array.isArray(reservedTokens) && reservedTokens.length) ||
+      (Array.isArray(revealPhases) &&
+        revealPhases.some((phase) => !phase?.placeholder))) &&
+    !hasDefaultPlaceholder(store, collectionName)
+  ) {
+    list.error(
+      joinPath(tokensPath, 'placeholder'),
+      'A placeholder token or a placeholder variant selecting every token is required when the collection is revealed later or reservedTokens is set'
+    );
+  }
+};
+
+/**
+ * Collects every problem of the collections and token metadata in the store
+ */
+export const validateDatabase = (store: IMetadataStore): ValidationIssue[] => {
+  const list = new IssueList();
+  for (const collectionName of store.getCollectionNames()) {
+    validateCollection(store, list, collectionName);
+  }
+  return list.issues;
+};
+
+/**
+ * Throws a DatabaseValidationError listing every issue, if any of them is fatal in the given mode
+ */
+export const ensureValidDatabase = (
+  store: IMetadataStore,
+  mode: ApiConfig['validation']
+): void => {
+  if (mode === 'off') {
+    return;
+  }
+  const issues = validateDatabase(store);
+  if (
+    issues.some(({ severity }) => mode === 'strict' || severity === 'error')
+  ) {
+    throw new DatabaseValidationError(issues);
+  }
+  issues.forEach(({ path, message }) =>
+    console.warn(`Token database warning at ${path}: ${message}`)
+  );
+};
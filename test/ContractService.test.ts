@@ -3,11 +3,24 @@ import { mocked } from 'ts-jest';
 import { ApiKeys } from '../src/types/ApiKeys';
 import { Network } from '../src/types/_';
 import { ApiConfig } from '../src/types/ApiConfig';
-import ContractService, { abi } from '../src/ContractService';
+import { RpcConfig } from '../src/types/RpcConfig';
+import ContractService, {
+  abi,
+  erc1155Abi,
+  transferEvent,
+} from '../src/ContractService';
 import { TokenDatabase } from '../src/types/TokenDatabase';
+import InMemoryMetadataStore from '../src/stores/InMemoryMetadataStore';
+import LruChainStateCache from '../src/cache/LruChainStateCache';
+import defaultApiConfig from '../src/api/defaultApiConfig';
+import { IMetadataStore } from '../src/types/IMetadataStore';
 
 jest.mock('ethers');
 
+const { BigNumber } = jest.requireActual('ethers').ethers;
+
+mocked(ethers.BigNumber.isBigNumber).mockImplementation(BigNumber.isBigNumber);
+
 const database = {
   collection0: {
     contract: {
@@ -48,8 +61,22 @@ const database = {
   },
 } as unknown as TokenDatabase;
 
+const store = new InMemoryMetadataStore(database);
+
 class MockContract {
   public ownerOf = jest.fn();
+  public totalSupply = jest.fn();
+  public exists = jest.fn();
+  public revealed = jest.fn();
+  public startingIndex = jest.fn();
+  public once = jest.fn();
+  public removeAllListeners = jest.fn();
+  public queryFilter = jest.fn();
+  public totalMinted = jest.fn();
+  public filters = {
+    Reveal: jest.fn().mockReturnValue('RevealFilter'),
+    Transfer: jest.fn((from, to) => (to ? 'BurnFilter' : 'MintFilter')),
+  };
 
   constructor(
     public address: string,
@@ -96,7 +123,7 @@ describe('ContractService', () => {
 
   describe('constructor', () => {
     it('should construct instance, and init contracts map correctly', () => {
-      const instance = new ContractService(database, config);
+      const instance = new ContractService(store, config);
 
       // check providers
       expect(Object.keys(instance['_providers'])).toHaveLength(3);
@@ -207,23 +234,316 @@ describe('ContractService', () => {
     });
   });
 
+  describe('providers', () => {
+    it('should use the providers configured for the networks', () => {
+      const provider = new MockProvider('network0');
+      const instance = new ContractService(store, {
+        ...config,
+        ethers: { ...config.ethers, networks: { network0: { provider } } },
+      } as unknown as ApiConfig);
+
+      expect(instance['_providers']['network0']).toBe(provider);
+      expect(
+        (instance['_providers']['network1'] as unknown as MockProvider).network
+      ).toEqual('network1');
+      expect(ethers.getDefaultProvider).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('store changes', () => {
+    it('should create and tear down contracts when the deployments change', async () => {
+      let current = new InMemoryMetadataStore(database);
+      let listener = () => undefined as void;
+      const changingStore: IMetadataStore = {
+        getCollectionNames: () => current.getCollectionNames(),
+        getCollection: (collectionName) =>
+          current.getCollection(collectionName),
+        getToken: (collectionName, tokenId) =>
+          current.getToken(collectionName, tokenId),
+        getTokenIds: (collectionName) => current.getTokenIds(collectionName),
+        subscribe: (l) => {
+          listener = l;
+          return () => undefined;
+        },
+      };
+
+      const instance = new ContractService(changingStore, config);
+      const unchanged = instance['_contracts']['collection0']['network0'];
+
+      instance['_contracts']['collection0'][
+        'network1'
+      ].ownerOf.mockResolvedValueOnce(true);
+      await instance.exists('collection0', 'network1', 1n);
+
+      current = new InMemoryMetadataStore({
+        collection0: {
+          ...database.collection0,
+          contract: {
+            deployments: {
+              network0: { address: 0 },
+              network1: { address: 5 },
+            },
+          },
+        },
+        collection1: {
+          ...database.collection1,
+          contract: { deployments: { network3: { address: 3 } } },
+        },
+      } as unknown as TokenDatabase);
+      listener();
+
+      expect(Object.keys(instance['_contracts'])).toEqual([
+        'collection0',
+        'collection1',
+      ]);
+      expect(instance['_contracts']['collection0']['network0']).toBe(unchanged);
+      expect(instance['_contracts']['collection0']['network1'].address).toEqual(
+        5
+      );
+      expect(instance['_contracts']['collection1']['network3'].address).toEqual(
+        3
+      );
+      expect(
+        (
+          instance['_contracts']['collection1']['network3']
+            .provider as MockProvider
+        ).network
+      ).toEqual('network3');
+      // the cache of the moved deployment is dropped
+      await expect(
+        instance['_cache'].get('collection0', 'network1', 'exists:1:1')
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('isRevealed', () => {
+    const revealDatabase = {
+      contractReveal: {
+        reveal: { type: 'contract' },
+        contract: { deployments: { network0: { address: 0 } } },
+      },
+      eventReveal: {
+        reveal: { type: 'event' },
+        contract: {
+          deployments: { network0: { address: 1, startBlock: 100 } },
+        },
+      },
+      timeReveal: {
+        contract: { deployments: { network0: { address: 2 } } },
+      },
+    } as unknown as TokenDatabase;
+    const revealStore = new InMemoryMetadataStore(revealDatabase);
+    const configWithCache = { ...config, totalSupplyCacheTTlSeconds: 10 };
+
+    it('should extend the abi with the reveal function or event', () => {
+      const instance = new ContractService(revealStore, configWithCache);
+
+      expect(instance['_contracts']['contractReveal']['network0'].abi).toEqual([
+        ...abi,
+        'function revealed() view returns (bool)',
+      ]);
+      expect(instance['_contracts']['eventReveal']['network0'].abi).toEqual([
+        ...abi,
+        'event Reveal()',
+      ]);
+      expect(instance['_contracts']['timeReveal']['network0'].abi).toEqual(abi);
+    });
+
+    it('should not gate collections without on-chain reveal', async () => {
+      const instance = new ContractService(revealStore, configWithCache);
+
+      await expect(
+        instance.isRevealed('timeReveal', 'network0')
+      ).resolves.toEqual(true);
+    });
+
+    it('should call the reveal function, and cache the result', async () => {
+      const instance = new ContractService(revealStore, configWithCache);
+      const contract = instance['_contracts']['contractReveal']['network0'];
+      contract.revealed.mockResolvedValueOnce(false);
+
+      await expect(
+        instance.isRevealed('contractReveal', 'network0')
+      ).resolves.toEqual(false);
+      await expect(
+        instance.isRevealed('contractReveal', 'network0')
+      ).resolves.toEqual(false);
+      expect(contract.revealed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never expire the revealed state', async () => {
+      const instance = new ContractService(revealStore, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+      });
+      const contract = instance['_contracts']['contractReveal']['network0'];
+      contract.revealed.mockResolvedValueOnce(true);
+
+      await instance.isRevealed('contractReveal', 'network0');
+      await expect(
+        instance.isRevealed('contractReveal', 'network0')
+      ).resolves.toEqual(true);
+      expect(contract.revealed).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the saved state if the contract call fails', async () => {
+      const instance = new ContractService(revealStore, configWithCache);
+      const contract = instance['_contracts']['contractReveal']['network0'];
+      contract.revealed.mockRejectedValueOnce(new Error('error'));
+      const consoleError = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => undefined);
+
+      await expect(
+        instance.isRevealed('contractReveal', 'network0')
+      ).resolves.toEqual(false);
+      consoleError.mockRestore();
+    });
+
+    it('should query past reveal events from the start block', async () => {
+      const instance = new ContractService(revealStore, configWithCache);
+      const contract = instance['_contracts']['eventReveal'][
+        'network0'
+      ] as unknown as MockContract;
+      contract.provider = { getBlockNumber: jest.fn().mockResolvedValue(150) };
+      contract.queryFilter.mockResolvedValueOnce([{ event: 'Reveal' }]);
+
+      await expect(
+        instance.isRevealed('eventReveal', 'network0')
+      ).resolves.toEqual(true);
+      expect(contract.queryFilter).toHaveBeenCalledWith(
+        'RevealFilter',
+        100,
+        150
+      );
+    });
+
+    it('should query reveal events in block ranges, then from the last block looked at', async () => {
+      const instance = new ContractService(revealStore, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+        rpc: { ...defaultApiConfig.rpc, maxBlockRange: 50 } as RpcConfig,
+      });
+      const contract = instance['_contracts']['eventReveal'][
+        'network0'
+      ] as unknown as MockContract;
+      contract.provider = {
+        getBlockNumber: jest
+          .fn()
+          .mockResolvedValueOnce(180)
+          .mockResolvedValueOnce(220),
+      };
+      contract.queryFilter.mockResolvedValue([]);
+
+      await expect(
+        instance.isRevealed('eventReveal', 'network0')
+      ).resolves.toEqual(false);
+      expect(contract.queryFilter.mock.calls).toEqual([
+        ['RevealFilter', 100, 149],
+        ['RevealFilter', 150, 180],
+      ]);
+
+      contract.queryFilter.mockClear();
+      await instance.isRevealed('eventReveal', 'network0');
+      expect(contract.queryFilter.mock.calls).toEqual([
+        ['RevealFilter', 181, 220],
+      ]);
+    });
+
+    it('should flip to revealed when the reveal event is emitted', async () => {
+      const instance = new ContractService(revealStore, configWithCache);
+      const contract = instance['_contracts']['eventReveal'][
+        'network0'
+      ] as unknown as MockContract;
+      contract.provider = { getBlockNumber: jest.fn().mockResolvedValue(150) };
+      contract.queryFilter.mockResolvedValueOnce([]);
+
+      await expect(
+        instance.isRevealed('eventReveal', 'network0')
+      ).resolves.toEqual(false);
+
+      expect(contract.once).toHaveBeenCalledWith(
+        'Reveal',
+        expect.any(Function)
+      );
+      contract.once.mock.calls[0][1]();
+
+      await expect(
+        instance.isRevealed('eventReveal', 'network0')
+      ).resolves.toEqual(true);
+      expect(contract.queryFilter).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getStartingIndex', () => {
+    const provenanceStore = new InMemoryMetadataStore({
+      staticIndex: {
+        provenance: { maxSupply: 10, startingIndex: 3 },
+        contract: { deployments: { network0: { address: 0 } } },
+      },
+      contractIndex: {
+        provenance: { maxSupply: 10 },
+        contract: { deployments: { network0: { address: 1 } } },
+      },
+    } as unknown as TokenDatabase);
+    const configWithCache = { ...config, totalSupplyCacheTTlSeconds: 10 };
+
+    it('should return the static starting index without calling the contract', async () => {
+      const instance = new ContractService(provenanceStore, configWithCache);
+
+      await expect(
+        instance.getStartingIndex('staticIndex', 'network0')
+      ).resolves.toEqual(3);
+      expect(instance['_contracts']['staticIndex']['network0'].abi).toEqual(
+        abi
+      );
+    });
+
+    it('should read the starting index from the contract, treating 0 as not set', async () => {
+      const instance = new ContractService(provenanceStore, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+      });
+      const contract = instance['_contracts']['contractIndex']['network0'];
+      expect(contract.abi).toEqual([
+        ...abi,
+        'function startingIndex() view returns (uint256)',
+      ]);
+      contract.startingIndex
+        .mockResolvedValueOnce(BigNumber.from(0))
+        .mockResolvedValueOnce(BigNumber.from(7));
+
+      await expect(
+        instance.getStartingIndex('contractIndex', 'network0')
+      ).resolves.toBeUndefined();
+      await expect(
+        instance.getStartingIndex('contractIndex', 'network0')
+      ).resolves.toEqual(7);
+      // cached forever once set
+      await expect(
+        instance.getStartingIndex('contractIndex', 'network0')
+      ).resolves.toEqual(7);
+      expect(contract.startingIndex).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('exists', () => {
     it('should get the total supply from the contract', async () => {
-      const instance = new ContractService(database, config);
+      const instance = new ContractService(store, config);
 
       instance['_contracts']['collection0'][
         'network0'
       ].ownerOf.mockResolvedValueOnce(true);
 
       await expect(
-        instance.exists('collection0', 'network0', 1)
+        instance.exists('collection0', 'network0', 1n)
       ).resolves.toEqual(true);
     });
 
     it('should use the cached value, if cache did not yet expire', async () => {
       const configWithCache = { ...config, totalSupplyCacheTTlSeconds: 10 };
 
-      const instance = new ContractService(database, configWithCache);
+      const instance = new ContractService(store, configWithCache);
 
       instance['_contracts']['collection0'][
         'network0'
@@ -231,12 +551,12 @@ describe('ContractService', () => {
 
       // from contract
       await expect(
-        instance.exists('collection0', 'network0', 1)
+        instance.exists('collection0', 'network0', 1n)
       ).resolves.toEqual(true);
 
       // from cache
       await expect(
-        instance.exists('collection0', 'network0', 1)
+        instance.exists('collection0', 'network0', 1n)
       ).resolves.toEqual(true);
 
       expect(
@@ -247,30 +567,38 @@ describe('ContractService', () => {
     it('should query the value from the contract again, after the cache expired', async () => {
       const configWithCache = { ...config, totalSupplyCacheTTlSeconds: 1 };
 
-      const instance = new ContractService(database, configWithCache);
+      const instance = new ContractService(store, configWithCache);
 
       (
         instance['_contracts']['collection0'][
           'network0'
         ] as unknown as MockContract
       ).ownerOf
-        .mockResolvedValueOnce(true)
+        .mockRejectedValueOnce(
+          Object.assign(new Error('nonexistent token'), {
+            code: 'CALL_EXCEPTION',
+          })
+        )
         .mockResolvedValueOnce(true);
+      const consoleError = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => undefined);
 
-      // from contract
+      // from contract, not yet minted
       await expect(
-        instance.exists('collection0', 'network0', 1)
-      ).resolves.toEqual(true);
+        instance.exists('collection0', 'network0', 1n)
+      ).resolves.toEqual(false);
+      consoleError.mockRestore();
 
       // from cache
       await expect(
-        instance.exists('collection0', 'network0', 1)
-      ).resolves.toEqual(true);
+        instance.exists('collection0', 'network0', 1n)
+      ).resolves.toEqual(false);
 
       // from contract again
       const exists = await new Promise((resolve) =>
         setTimeout(
-          () => instance.exists('collection0', 'network0', 1).then(resolve),
+          () => instance.exists('collection0', 'network0', 1n).then(resolve),
           1100
         )
       );
@@ -285,60 +613,70 @@ describe('ContractService', () => {
     it('should reuse saved value if contract call fails and cache expired - no saved value', async () => {
       const configWithCache = { ...config, totalSupplyCacheTTlSeconds: 1 };
 
-      const instance = new ContractService(database, configWithCache);
+      const instance = new ContractService(store, configWithCache);
 
       (
         instance['_contracts']['collection0'][
           'network0'
         ] as unknown as MockContract
       ).ownerOf.mockRejectedValueOnce(new Error('error'));
+      const dateNow = jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
 
       // calling the contract, but it fails
       await expect(
-        instance.exists('collection0', 'network0', 1)
+        instance.exists('collection0', 'network0', 1n)
       ).resolves.toEqual(false);
 
       const now = Math.round(Date.now() / 1000);
+      dateNow.mockRestore();
       // saved timestamp to cache, so it call again only after ttl expired
-      expect(
-        Math.round(
-          instance['_existsMap']['collection0']['network0'][1].timestamp
-        )
-      ).toEqual(now);
+      const saved = await instance['_cache'].get(
+        'collection0',
+        'network0',
+        'exists:0:1'
+      );
+      expect(Math.round(saved?.timestamp || 0)).toEqual(now);
     });
 
     it('should reuse saved value if contract call fails and cache expired - there is a saved value', async () => {
       const configWithCache = { ...config, totalSupplyCacheTTlSeconds: 1 };
 
-      const instance = new ContractService(database, configWithCache);
+      const instance = new ContractService(store, configWithCache);
 
       (
         instance['_contracts']['collection0'][
           'network0'
         ] as unknown as MockContract
       ).ownerOf
-        .mockResolvedValueOnce(true)
+        .mockRejectedValueOnce(
+          Object.assign(new Error('nonexistent token'), {
+            code: 'CALL_EXCEPTION',
+          })
+        )
         .mockRejectedValueOnce(new Error('error'));
 
-      // calling the contract, and succeeds
+      // calling the contract, the token is not minted yet
       await expect(
-        instance.exists('collection0', 'network0', 1)
-      ).resolves.toEqual(true);
+        instance.exists('collection0', 'network0', 1n)
+      ).resolves.toEqual(false);
 
       // calling again, after cache expired
       const exists = await new Promise((resolve) =>
         setTimeout(
-          () => instance.exists('collection0', 'network0', 1).then(resolve),
+          () => instance.exists('collection0', 'network0', 1n).then(resolve),
           1100
         )
       );
 
-      expect(exists).toEqual(true);
+      expect(exists).toEqual(false);
 
       // timestamp is not 0
-      expect(
-        instance['_existsMap']['collection0']['network0'][1].timestamp
-      ).not.toEqual(0);
+      const saved = await instance['_cache'].get(
+        'collection0',
+        'network0',
+        'exists:0:1'
+      );
+      expect(saved?.timestamp).not.toEqual(0);
 
       // ownerOf was called twice
       expect(
@@ -346,4 +684,771 @@ describe('ContractService', () => {
       ).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe('owners and view calls', () => {
+    const stakedAt = 'function stakedAt(uint256) view returns (uint256)';
+    const resolverConfig = {
+      ...config,
+      totalSupplyCacheTTlSeconds: 10,
+      resolvers: {
+        collection0: [{ calls: { stakedAt: { signature: stakedAt } } }],
+      },
+    } as unknown as ApiConfig;
+
+    it('should extend the abi with the view calls of the resolvers', () => {
+      const instance = new ContractService(store, resolverConfig);
+
+      expect(instance['_contracts']['collection0']['network0'].abi).toEqual([
+        ...abi,
+        stakedAt,
+      ]);
+      expect(instance['_contracts']['collection2']['network0'].abi).toEqual(
+        abi
+      );
+    });
+
+    it('should extend the abi with the contract state of the collection once', () => {
+      const instance = new ContractService(
+        new InMemoryMetadataStore({
+          evolving: {
+            contractState: {
+              level: { signature: 'getLevel(uint256) view returns (uint256)' },
+            },
+            contract: { deployments: { network0: { address: 0 } } },
+          },
+        } as unknown as TokenDatabase),
+        {
+          ...config,
+          resolvers: {
+            evolving: [
+              {
+                calls: {
+                  level: {
+                    signature:
+                      'function getLevel(uint256) view returns (uint256)',
+                  },
+                },
+              },
+            ],
+          },
+        } as unknown as ApiConfig
+      );
+
+      expect(instance['_contracts']['evolving']['network0'].abi).toEqual([
+        ...abi,
+        'function getLevel(uint256) view returns (uint256)',
+      ]);
+    });
+
+    it('should reuse the owner looked up by exists', async () => {
+      const instance = new ContractService(store, resolverConfig);
+      const contract = instance['_contracts']['collection0']['network0'];
+      contract.ownerOf.mockResolvedValueOnce('0x1');
+
+      await instance.exists('collection0', 'network0', 1n);
+      await expect(
+        instance.getOwner('collection0', 'network0', 1n)
+      ).resolves.toEqual('0x1');
+      expect(contract.ownerOf).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not record owners for collections without resolvers', async () => {
+      const instance = new ContractService(store, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 10,
+      });
+      const contract = instance['_contracts']['collection0']['network0'];
+      contract.ownerOf.mockResolvedValue('0x1');
+
+      await instance.exists('collection0', 'network0', 1n);
+      await expect(
+        instance['_cache'].get(
+          'collection0',
+          'network0',
+          `owner:${contract.address}:1`
+        )
+      ).resolves.toBeUndefined();
+      await instance.getOwner('collection0', 'network0', 1n);
+      expect(contract.ownerOf).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not return owners of tokens not minted', async () => {
+      const instance = new ContractService(store, resolverConfig);
+      const contract = instance['_contracts']['collection0']['network0'];
+      contract.ownerOf.mockRejectedValueOnce(
+        Object.assign(new Error('nonexistent token'), {
+          code: 'CALL_EXCEPTION',
+        })
+      );
+      const consoleError = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => undefined);
+
+      await expect(
+        instance.getOwner('collection0', 'network0', 3n)
+      ).resolves.toBeUndefined();
+      consoleError.mockRestore();
+    });
+
+    it('should cache the view call results by function and args', async () => {
+      const instance = new ContractService(store, resolverConfig);
+      const contract = instance['_contracts']['collection0'][
+        'network0'
+      ] as unknown as Record<string, jest.Mock>;
+      contract.stakedAt = jest
+        .fn()
+        .mockResolvedValueOnce(BigNumber.from(100))
+        .mockResolvedValueOnce(BigNumber.from(0));
+
+      await expect(
+        instance.viewCall('collection0', 'network0', stakedAt, [1n])
+      ).resolves.toEqual(BigNumber.from(100));
+      await expect(
+        instance.viewCall('collection0', 'network0', stakedAt, [1n])
+      ).resolves.toEqual(BigNumber.from(100));
+      await expect(
+        instance.viewCall('collection0', 'network0', stakedAt, [2n])
+      ).resolves.toEqual(BigNumber.from(0));
+      expect(contract.stakedAt).toHaveBeenCalledTimes(2);
+      expect(contract.stakedAt).toHaveBeenCalledWith(2n);
+    });
+  });
+
+  describe('exists cache', () => {
+    it('should never expire the minted state', async () => {
+      const instance = new ContractService(store, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+      });
+      const contract = instance['_contracts']['collection0']['network0'];
+      contract.ownerOf.mockResolvedValueOnce('0x1');
+
+      await instance.exists('collection0', 'network0', 1n);
+      await expect(
+        instance.exists('collection0', 'network0', 1n)
+      ).resolves.toEqual(true);
+      expect(contract.ownerOf).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reuse the state looked up by other instances sharing the cache', async () => {
+      const cache = new LruChainStateCache();
+      const first = new ContractService(store, { ...config, cache });
+      first['_contracts']['collection0'][
+        'network0'
+      ].ownerOf.mockResolvedValueOnce('0x1');
+      await first.exists('collection0', 'network0', 1n);
+
+      const second = new ContractService(store, { ...config, cache });
+
+      await expect(
+        second.exists('collection0', 'network0', 1n)
+      ).resolves.toEqual(true);
+      expect(
+        second['_contracts']['collection0']['network0'].ownerOf
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exists for ERC1155', () => {
+    const erc1155Store = new InMemoryMetadataStore({
+      supply: {
+        contract: {
+          standard: 'ERC1155',
+          deployments: { network0: { address: 0 } },
+        },
+      },
+      existsFunction: {
+        contract: {
+          standard: 'ERC1155',
+          existsMethod: 'exists',
+          deployments: { network0: { address: 1 } },
+        },
+      },
+    } as unknown as TokenDatabase);
+
+    it('should use the abi of the exists method', () => {
+      const instance = new ContractService(erc1155Store, config);
+
+      expect(instance['_contracts']['supply']['network0'].abi).toEqual(
+        erc1155Abi.totalSupply
+      );
+      expect(instance['_contracts']['existsFunction']['network0'].abi).toEqual(
+        erc1155Abi.exists
+      );
+    });
+
+    it('should check the total supply of the token', async () => {
+      const instance = new ContractService(erc1155Store, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+      });
+      const contract = instance['_contracts']['supply']['network0'];
+      contract.totalSupply
+        .mockResolvedValueOnce(BigNumber.from(0))
+        .mockResolvedValueOnce(BigNumber.from(5));
+
+      await expect(instance.exists('supply', 'network0', 1n)).resolves.toEqual(
+        false
+      );
+      await expect(instance.exists('supply', 'network0', 1n)).resolves.toEqual(
+        true
+      );
+      expect(contract.totalSupply).toHaveBeenCalledWith(1n);
+      expect(contract.ownerOf).not.toHaveBeenCalled();
+    });
+
+    it('should call the exists function of the token', async () => {
+      const instance = new ContractService(erc1155Store, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+      });
+      const contract = instance['_contracts']['existsFunction']['network0'];
+      contract.exists.mockResolvedValueOnce(true);
+
+      await expect(
+        instance.exists('existsFunction', 'network0', 1n)
+      ).resolves.toEqual(true);
+      expect(contract.exists).toHaveBeenCalledWith(1n);
+    });
+  });
+
+  describe('request coalescing', () => {
+    it('should share the pending lookup of the same token', async () => {
+      const instance = new ContractService(store, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+      });
+      const contract = instance['_contracts']['collection0']['network0'];
+      contract.ownerOf.mockRejectedValue(
+        Object.assign(new Error('nonexistent token'), {
+          code: 'CALL_EXCEPTION',
+        })
+      );
+      const consoleError = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => undefined);
+
+      await expect(
+        Promise.all([
+          instance.exists('collection0', 'network0', 1n),
+          instance.exists('collection0', 'network0', 1n),
+          instance.exists('collection0', 'network0', 2n),
+        ])
+      ).resolves.toEqual([false, false, false]);
+      expect(contract.ownerOf).toHaveBeenCalledTimes(2);
+
+      // settled lookups are not shared
+      await instance.exists('collection0', 'network0', 1n);
+      expect(contract.ownerOf).toHaveBeenCalledTimes(3);
+      consoleError.mockRestore();
+    });
+
+    it('should limit the concurrent calls per network', async () => {
+      const instance = new ContractService(store, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+        rpc: {
+          batchWindowMs: 0,
+          maxBatchSize: 1,
+          multicallAddress: '',
+          maxConcurrency: 1,
+          retries: 0,
+          retryDelayMs: 0,
+          serveStale: true,
+        },
+      });
+      const contract = instance['_contracts']['collection0']['network0'];
+      let active = 0;
+      let maxActive = 0;
+      contract.ownerOf.mockImplementation(async () => {
+        active++;
+        maxActive = Math.max(active, maxActive);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      });
+
+      await Promise.all(
+        [1n, 2n, 3n].map((tokenId) =>
+          instance.exists('collection0', 'network0', tokenId)
+        )
+      );
+
+      expect(contract.ownerOf).toHaveBeenCalledTimes(3);
+      expect(maxActive).toEqual(1);
+    });
+  });
+
+  describe('concurrency limit', () => {
+    it('should limit the reveal, starting index and supply calls as well', async () => {
+      const instance = new ContractService(
+        new InMemoryMetadataStore({
+          limited: {
+            reveal: { type: 'contract' },
+            provenance: { maxSupply: 10 },
+            existence: { type: 'totalSupply' },
+            contract: { deployments: { network0: { address: 0 } } },
+          },
+        } as unknown as TokenDatabase),
+        {
+          ...config,
+          totalSupplyCacheTTlSeconds: 0,
+          rpc: { ...defaultApiConfig.rpc, maxConcurrency: 1 } as RpcConfig,
+        }
+      );
+      const contract = instance['_contracts']['limited']['network0'];
+      let active = 0;
+      let maxActive = 0;
+      const slowCall = (value: unknown) => async () => {
+        active++;
+        maxActive = Math.max(active, maxActive);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+        return value;
+      };
+      contract.revealed.mockImplementation(slowCall(true));
+      contract.startingIndex.mockImplementation(slowCall(BigNumber.from(3)));
+      contract.totalSupply.mockImplementation(slowCall(BigNumber.from(5)));
+
+      await expect(
+        Promise.all([
+          instance.isRevealed('limited', 'network0'),
+          instance.getStartingIndex('limited', 'network0'),
+          instance.exists('limited', 'network0', 1n),
+        ])
+      ).resolves.toEqual([true, 3, true]);
+      expect(maxActive).toEqual(1);
+    });
+  });
+
+  describe('exists for uint256 ids', () => {
+    it('should cache each id separately, and call the contract with the exact id', async () => {
+      const instance = new ContractService(store, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 10,
+      });
+      const contract = instance['_contracts']['collection0']['network0'];
+      const id = 2n ** 255n;
+      contract.ownerOf
+        .mockResolvedValueOnce(true)
+        .mockRejectedValueOnce(new Error('nonexistent token'));
+
+      await expect(
+        instance.exists('collection0', 'network0', id)
+      ).resolves.toEqual(true);
+      await expect(
+        instance.exists('collection0', 'network0', id + 1n)
+      ).resolves.toEqual(false);
+      await expect(
+        instance.exists('collection0', 'network0', id)
+      ).resolves.toEqual(true);
+      expect(contract.ownerOf).toHaveBeenCalledTimes(2);
+      expect(contract.ownerOf).toHaveBeenNthCalledWith(1, id);
+      expect(contract.ownerOf).toHaveBeenNthCalledWith(2, id + 1n);
+    });
+  });
+
+  describe('exists by total supply', () => {
+    const supplyStore = new InMemoryMetadataStore({
+      sequential: {
+        existence: { type: 'totalSupply' },
+        minTokenId: 1,
+        contract: { deployments: { network0: { address: 0 } } },
+      },
+      burnable: {
+        existence: {
+          type: 'totalSupply',
+          method: 'totalMinted',
+          burnable: true,
+        },
+        contract: { deployments: { network0: { address: 1 } } },
+      },
+    } as unknown as TokenDatabase);
+
+    it('should extend the abi with the supply function', () => {
+      const instance = new ContractService(supplyStore, config);
+
+      expect(instance['_contracts']['burnable']['network0'].abi).toEqual([
+        ...abi,
+        'function totalMinted() view returns (uint256)',
+      ]);
+    });
+
+    it('should check ids against the supply, only querying it again for ids beyond it', async () => {
+      const instance = new ContractService(supplyStore, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+      });
+      const contract = instance['_contracts']['sequential']['network0'];
+      contract.totalSupply
+        .mockResolvedValueOnce(BigNumber.from(3))
+        .mockResolvedValueOnce(BigNumber.from(4));
+
+      await expect(
+        instance.exists('sequential', 'network0', 3n)
+      ).resolves.toEqual(true);
+      await expect(
+        instance.exists('sequential', 'network0', 0n)
+      ).resolves.toEqual(false);
+      await expect(
+        instance.exists('sequential', 'network0', 1n)
+      ).resolves.toEqual(true);
+      expect(contract.totalSupply).toHaveBeenCalledTimes(1);
+
+      await expect(
+        instance.exists('sequential', 'network0', 4n)
+      ).resolves.toEqual(true);
+      expect(contract.totalSupply).toHaveBeenCalledTimes(2);
+      expect(contract.ownerOf).not.toHaveBeenCalled();
+    });
+
+    it('should reuse the supply saved by other instances sharing the cache', async () => {
+      const cache = new LruChainStateCache();
+      await cache.set('sequential', 'network0', 'totalSupply:0', {
+        value: '3',
+        timestamp: Date.now() / 1000,
+      });
+      const instance = new ContractService(supplyStore, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 10,
+        cache,
+      });
+
+      await expect(
+        instance.exists('sequential', 'network0', 3n)
+      ).resolves.toEqual(true);
+      await expect(
+        instance.exists('sequential', 'network0', 4n)
+      ).resolves.toEqual(false);
+      expect(
+        instance['_contracts']['sequential']['network0'].totalSupply
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid supply responses', async () => {
+      const instance = new ContractService(supplyStore, config);
+      const contract = instance['_contracts']['sequential']['network0'];
+      contract.totalSupply.mockResolvedValueOnce('lol');
+
+      await expect(
+        instance.exists('sequential', 'network0', 1n)
+      ).resolves.toEqual(false);
+    });
+
+    it('should check the owner of minted tokens if they can be burned', async () => {
+      const instance = new ContractService(supplyStore, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 10,
+      });
+      const contract = instance['_contracts']['burnable']['network0'];
+      contract.totalMinted.mockResolvedValueOnce(BigNumber.from(3));
+      contract.ownerOf
+        .mockResolvedValueOnce('0x1')
+        .mockRejectedValueOnce(new Error('burned'));
+
+      await expect(
+        instance.exists('burnable', 'network0', 0n)
+      ).resolves.toEqual(true);
+      await expect(
+        instance.exists('burnable', 'network0', 1n)
+      ).resolves.toEqual(false);
+      await expect(
+        instance.exists('burnable', 'network0', 3n)
+      ).resolves.toEqual(false);
+      expect(contract.ownerOf).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('exists by transfer events', () => {
+    const eventStore = new InMemoryMetadataStore({
+      indexed: {
+        existence: { type: 'transferEvents' },
+        contract: {
+          deployments: { network0: { address: 0, startBlock: 100 } },
+        },
+      },
+    } as unknown as TokenDatabase);
+    const transfer = (
+      blockNumber: number,
+      logIndex: number,
+      from: string,
+      to: string,
+      tokenId: number
+    ) => ({
+      blockNumber,
+      logIndex,
+      args: { from, to, tokenId: BigNumber.from(tokenId) },
+    });
+    const zero = ethers.constants.AddressZero;
+
+    it('should index mints and burns, then only the new blocks', async () => {
+      const instance = new ContractService(eventStore, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+      });
+      const contract = instance['_contracts']['indexed'][
+        'network0'
+      ] as unknown as MockContract;
+      contract.provider = { getBlockNumber: jest.fn() };
+      expect(contract.abi).toEqual([...abi, transferEvent]);
+      contract.provider.getBlockNumber
+        .mockResolvedValueOnce(200)
+        .mockResolvedValueOnce(210);
+      contract.queryFilter.mockImplementation(async (filter, fromBlock) => {
+        if (fromBlock === 100) {
+          return filter === 'MintFilter'
+            ? [
+                transfer(101, 0, zero, '0x1', 1),
+                transfer(102, 0, zero, '0x1', 2),
+              ]
+            : [transfer(150, 0, '0x1', zero, 2)];
+        }
+        return filter === 'MintFilter'
+          ? [transfer(205, 1, zero, '0x1', 2)]
+          : [transfer(205, 0, '0x1', zero, 1)];
+      });
+
+      await expect(instance.exists('indexed', 'network0', 2n)).resolves.toEqual(
+        false
+      );
+      expect(contract.queryFilter).toHaveBeenCalledWith('MintFilter', 100, 200);
+      expect(contract.queryFilter).toHaveBeenCalledWith('BurnFilter', 100, 200);
+      await expect(
+        instance['_cache'].get('indexed', 'network0', 'minted:0')
+      ).resolves.toEqual({
+        value: { tokenIds: ['1'], block: 200 },
+        timestamp: expect.any(Number),
+      });
+
+      await expect(instance.exists('indexed', 'network0', 2n)).resolves.toEqual(
+        true
+      );
+      expect(contract.queryFilter).toHaveBeenCalledWith('MintFilter', 201, 210);
+      await expect(instance.exists('indexed', 'network0', 1n)).resolves.toEqual(
+        false
+      );
+    });
+
+    it('should continue from the block indexed by other instances sharing the cache', async () => {
+      const cache = new LruChainStateCache();
+      await cache.set('indexed', 'network0', 'minted:0', {
+        value: { tokenIds: ['1'], block: 200 },
+        timestamp: 0,
+      });
+      const instance = new ContractService(eventStore, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 10,
+        cache,
+      });
+      const contract = instance['_contracts']['indexed'][
+        'network0'
+      ] as unknown as MockContract;
+      contract.provider = { getBlockNumber: jest.fn().mockResolvedValue(210) };
+      contract.queryFilter.mockResolvedValue([]);
+
+      await expect(instance.exists('indexed', 'network0', 1n)).resolves.toEqual(
+        true
+      );
+      expect(contract.queryFilter).toHaveBeenCalledWith('MintFilter', 201, 210);
+      expect(contract.queryFilter).not.toHaveBeenCalledWith(
+        'MintFilter',
+        100,
+        expect.anything()
+      );
+    });
+
+    it('should index block ranges, continuing from the last saved range after a failure', async () => {
+      const instance = new ContractService(eventStore, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 10,
+        rpc: { ...defaultApiConfig.rpc, retries: 0, maxBlockRange: 50 },
+      } as ApiConfig);
+      const contract = instance['_contracts']['indexed'][
+        'network0'
+      ] as unknown as MockContract;
+      contract.provider = { getBlockNumber: jest.fn().mockResolvedValue(200) };
+      contract.queryFilter.mockImplementation(async (filter, fromBlock) => {
+        if (fromBlock === 150) {
+          throw new Error('query returned more than 10000 results');
+        }
+        return filter === 'MintFilter' && fromBlock === 100
+          ? [transfer(101, 0, zero, '0x1', 1)]
+          : [];
+      });
+      const consoleError = jest
+        .spyOn(console, 'error')
+        .mockImplementation(() => undefined);
+
+      // the blocks indexed before the failure are served
+      await expect(instance.exists('indexed', 'network0', 1n)).resolves.toEqual(
+        true
+      );
+      await expect(
+        instance['_cache'].get('indexed', 'network0', 'minted:0')
+      ).resolves.toEqual({
+        value: { tokenIds: ['1'], block: 149 },
+        timestamp: 0,
+      });
+
+      contract.queryFilter.mockClear();
+      contract.queryFilter.mockResolvedValue([]);
+      await instance.exists('indexed', 'network0', 1n);
+      expect(
+        contract.queryFilter.mock.calls.map(([, from, to]) => [from, to])
+      ).toEqual([
+        [150, 199],
+        [150, 199],
+        [200, 200],
+        [200, 200],
+      ]);
+      consoleError.mockRestore();
+    });
+
+    it('should keep the indexed tokens if the query fails', async () => {
+      const instance = new ContractService(eventStore, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+      });
+      const contract = instance['_contracts']['indexed'][
+        'network0'
+      ] as unknown as MockContract;
+      contract.provider = { getBlockNumber: jest.fn() };
+      contract.provider.getBlockNumber
+        .mockResolvedValueOnce(200)
+        .mockRejectedValueOnce(new Error('error'));
+      contract.queryFilter.mockImplementation(async (filter) =>
+        filter === 'MintFilter' ? [transfer(101, 0, zero, '0x1', 1)] : []
+      );
+
+      await expect(instance.exists('indexed', 'network0', 1n)).resolves.toEqual(
+        true
+      );
+      await expect(instance.exists('indexed', 'network0', 1n)).resolves.toEqual(
+        true
+      );
+    });
+  });
+
+  describe('provider failures', () => {
+    const rpc: RpcConfig = {
+      batchWindowMs: 0,
+      maxBatchSize: 1,
+      multicallAddress: '',
+      maxConcurrency: 0,
+      retries: 1,
+      retryDelayMs: 1,
+      serveStale: true,
+    };
+    const serverError = () =>
+      Object.assign(new Error('bad gateway'), { code: 'SERVER_ERROR' });
+    const revert = () =>
+      Object.assign(new Error('nonexistent token'), {
+        code: 'CALL_EXCEPTION',
+      });
+    const createInstance = (rpcConfig = rpc) => {
+      const instance = new ContractService(store, {
+        ...config,
+        totalSupplyCacheTTlSeconds: 0,
+        rpc: rpcConfig,
+      });
+      return {
+        instance,
+        contract: instance['_contracts']['collection0'][
+          'network0'
+        ] as unknown as MockContract,
+      };
+    };
+
+    it('should retry transient errors', async () => {
+      const { instance, contract } = createInstance();
+      contract.ownerOf
+        .mockRejectedValueOnce(serverError())
+        .mockResolvedValueOnce('0x1');
+
+      await expect(
+        instance.exists('collection0', 'network0', 1n)
+      ).resolves.toEqual(true);
+      expect(contract.ownerOf).toHaveBeenCalledTimes(2);
+      expect(instance.isDegraded('collection0', 'network0')).toEqual(false);
+    });
+
+    it('should not serve the saved value for reverted calls', async () => {
+      // burned tokens revert
+      const instance = new ContractService(
+        new InMemoryMetadataStore({
+          burnable: {
+            existence: { type: 'totalSupply', burnable: true },
+            contract: { deployments: { network0: { address: 0 } } },
+          },
+        } as unknown as TokenDatabase),
+        { ...config, totalSupplyCacheTTlSeconds: 0, rpc }
+      );
+      const contract = instance['_contracts']['burnable'][
+        'network0'
+      ] as unknown as MockContract;
+      contract.totalSupply.mockResolvedValue(BigNumber.from(5));
+      contract.ownerOf
+        .mockResolvedValueOnce('0x1')
+        .mockRejectedValueOnce(revert());
+
+      await expect(
+        instance.exists('burnable', 'network0', 1n)
+      ).resolves.toEqual(true);
+      await expect(
+        instance.exists('burnable', 'network0', 1n)
+      ).resolves.toEqual(false);
+      expect(contract.ownerOf).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve the saved value while the provider fails, marking the deployment degraded', async () => {
+      const { instance, contract } = createInstance();
+      contract.ownerOf
+        .mockRejectedValueOnce(revert())
+        .mockRejectedValueOnce(serverError())
+        .mockRejectedValueOnce(serverError())
+        .mockResolvedValueOnce('0x1');
+      const freshReads = { stale: false };
+      const staleReads = { stale: false };
+      const sharedReads = { stale: false };
+      const laterReads = { stale: false };
+
+      await instance.exists('collection0', 'network0', 1n, freshReads);
+      const [served] = await Promise.all([
+        instance.exists('collection0', 'network0', 1n, staleReads),
+        instance.exists('collection0', 'network0', 1n, sharedReads),
+      ]);
+      expect(served).toEqual(false);
+      expect(instance.isDegraded('collection0', 'network0')).toEqual(true);
+
+      await instance.exists('collection0', 'network0', 1n, laterReads);
+      expect(instance.isDegraded('collection0', 'network0')).toEqual(false);
+      expect(freshReads.stale).toEqual(false);
+      expect(staleReads.stale).toEqual(true);
+      expect(sharedReads.stale).toEqual(true);
+      expect(laterReads.stale).toEqual(false);
+    });
+
+    it('should fail with 503 without a value to serve', async () => {
+      const { instance, contract } = createInstance({
+        ...rpc,
+        retries: 0,
+        maxStaleSeconds: 60,
+      });
+      contract.ownerOf.mockRejectedValueOnce(serverError());
+
+      await expect(
+        instance.exists('collection0', 'network0', 1n)
+      ).rejects.toEqual(expect.objectContaining({ status: 503 }));
+
+      // too old to be served
+      await instance['_cache'].set('collection0', 'network0', 'exists:0:1', {
+        value: false,
+        timestamp: Date.now() / 1000 - 120,
+      });
+      contract.ownerOf.mockRejectedValueOnce(serverError());
+
+      await expect(
+        instance.exists('collection0', 'network0', 1n)
+      ).rejects.toEqual(expect.objectContaining({ status: 503 }));
+    });
+  });
 });
@@ -1,17 +1,28 @@
 import {
+  api,
+  createCollectionHandler,
   createWithEthers,
   createWithoutEthers,
+  degradedHeader,
   ensureCollectionExists,
   ensureDeploymentNetwork,
   ensureTokenExists,
+  extractParams,
+  getPlaceholderId,
+  getRevealPhase,
+  getServedMetadata,
   isCollectionRevealed,
+  isCollectionRevealedOnNetwork,
   isTokenReserved,
 } from '../src/api/api';
 import { TokenDatabase } from '../src/types/TokenDatabase';
-import { HttpError } from '../src/errors';
+import { DatabaseValidationError, HttpError } from '../src/errors';
 import express from 'express';
 import ContractService from '../src/ContractService';
+import { ChainReads } from '../src/types/ChainReads';
 import { mocked } from 'ts-jest';
+import defaultApiConfig from '../src/api/defaultApiConfig';
+import InMemoryMetadataStore from '../src/stores/InMemoryMetadataStore';
 
 afterEach(() => jest.clearAllMocks());
 
@@ -27,6 +38,16 @@ const database: TokenDatabase = {
         },
       },
     },
+    collection: {
+      name: 'Collection',
+      seller_fee_basis_points: 250,
+      fee_recipient: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+      networks: {
+        lel: {
+          fee_recipient: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+        },
+      },
+    },
     reservedTokens: [1, 2],
     revealTime: new Date(0).getTime(),
     tokens: {
@@ -74,6 +95,194 @@ const database: TokenDatabase = {
       },
     },
   },
+  collectionContractReveal: {
+    contract: {
+      deployments: {
+        lol: {
+          address: 'dadsdas',
+        },
+      },
+    },
+    reveal: { type: 'contract' },
+    tokens: {
+      0: {
+        name: 'name0',
+      },
+      placeholder: {
+        name: 'placeholder',
+      },
+    },
+  },
+  collectionProvenance: {
+    contract: {
+      deployments: {
+        lol: {
+          address: 'dadsdas',
+        },
+      },
+    },
+    provenance: { maxSupply: 3, startingIndex: 1 },
+    tokens: {
+      0: {
+        name: 'artwork0',
+      },
+      1: {
+        name: 'artwork1',
+      },
+      2: {
+        name: 'artwork2',
+      },
+      placeholder: {
+        name: 'placeholder',
+      },
+    },
+  },
+  collectionPhases: {
+    contract: {
+      deployments: {
+        lol: {
+          address: 'dadsdas',
+        },
+      },
+    },
+    reservedTokens: [{ from: 8, to: 9 }],
+    revealPhases: [
+      { tokens: [1], revealed: false, placeholder: 'oneOfOne' },
+      { from: 0, to: 2, revealTime: new Date(0).getTime() },
+      { from: 3, revealTime: new Date(3000, 1, 1).getTime() },
+    ],
+    tokens: {
+      0: {
+        name: 'name0',
+      },
+      1: {
+        name: 'name1',
+      },
+      3: {
+        name: 'name3',
+      },
+      placeholder: {
+        name: 'placeholder',
+      },
+      oneOfOne: {
+        name: 'oneOfOne',
+      },
+    },
+  },
+  collectionMysteryBoxes: {
+    contract: {
+      deployments: {
+        lol: {
+          address: 'dadsdas',
+        },
+      },
+    },
+    revealTime: new Date(3000, 1, 1).getTime(),
+    placeholders: {
+      gold: {
+        from: 0,
+        to: 9,
+        metadata: { name: 'Gold Box #{{tokenId}}' },
+      },
+      silver: {
+        trait: { trait_type: 'Tier', value: 'Silver' },
+        metadata: { name: 'Silver Box #{{tokenId}}' },
+      },
+      bronze: {
+        metadata: { name: 'Bronze Box #{{tokenId}}' },
+      },
+    },
+    tokens: {
+      42: {
+        name: 'name42',
+        attributes: [{ trait_type: 'Tier', value: 'Silver' }],
+      },
+      43: {
+        name: 'name43',
+        attributes: [{ trait_type: 'Tier', value: 'Bronze' }],
+      },
+    },
+  },
+  collectionDefaults: {
+    contract: {
+      deployments: {
+        lol: {
+          address: 'dadsdas',
+        },
+      },
+    },
+    defaults: {
+      description: 'Token {{tokenId}} of {{collection}} on {{network}}',
+      image: 'ipfs://Qm/{{tokenId}}.png',
+      external_url: 'https://example.com/{{collection}}/{{tokenId}}',
+    },
+    tokens: {
+      0: {
+        name: 'name0',
+      },
+      1: {
+        name: 'name1',
+        image: 'ipfs://Qm/special.png',
+      },
+    },
+  },
+  collection1155: {
+    contract: {
+      standard: 'ERC1155',
+      deployments: {
+        lol: {
+          address: 'dadsdas',
+        },
+      },
+    },
+    tokens: {
+      26: {
+        name: 'name26',
+        image: 'https://example.com/{id}.png',
+      },
+    },
+  },
+  collectionLargeIds: {
+    contract: {
+      deployments: {
+        lol: {
+          address: 'dadsdas',
+        },
+      },
+    },
+    reservedTokens: [
+      '57896044618658097711785492504343953926634992332820282019728792003956564819969',
+    ],
+    tokens: {
+      '57896044618658097711785492504343953926634992332820282019728792003956564819968':
+        {
+          name: '2^255',
+        },
+      '57896044618658097711785492504343953926634992332820282019728792003956564819969':
+        {
+          name: '2^255 + 1',
+        },
+      placeholder: {
+        name: 'placeholder',
+      },
+    },
+  },
+  collectionBounds: {
+    contract: {
+      deployments: {
+        lol: {
+          address: 'dadsdas',
+        },
+      },
+    },
+    minTokenId: 1,
+    maxSupply: 3,
+    tokens: {
+      1: {
+        name: 'name1',
+      },
+    },
+  },
   collectionFutureReveal: {
     contract: {
       deployments: {
@@ -91,32 +300,34 @@ const database: TokenDatabase = {
   },
 };
 
+const store = new InMemoryMetadataStore(database);
+
 describe('ensureTokenExists', () => {
   it('should do nothing if token exists in the collection', () => {
-    expect(() => ensureTokenExists(database, 'collection', 0)).not.toThrow();
+    expect(() => ensureTokenExists(store, 'collection', 0)).not.toThrow();
   });
   it('should throw if no tokens property is found on collection', () => {
     expect(() =>
       ensureTokenExists(
-        { collection: {} } as unknown as TokenDatabase,
+        new InMemoryMetadataStore({
+          collection: {},
+        } as unknown as TokenDatabase),
         'collection',
         0
       )
     ).toThrow(HttpError);
   });
   it('should throw if token is not found', () => {
-    expect(() => ensureTokenExists(database, 'collection', 1)).toThrow(
-      HttpError
-    );
+    expect(() => ensureTokenExists(store, 'collection', 1)).toThrow(HttpError);
   });
 });
 
 describe('ensureCollectionExists', () => {
   it('should not throw if collection exists', () => {
-    expect(() => ensureCollectionExists(database, 'collection')).not.toThrow();
+    expect(() => ensureCollectionExists(store, 'collection')).not.toThrow();
   });
   it('should throw is collection doesnt exist', () => {
-    expect(() => ensureCollectionExists(database, 'collection0')).toThrow(
+    expect(() => ensureCollectionExists(store, 'collection0')).toThrow(
       HttpError
     );
   });
@@ -124,47 +335,239 @@ describe('ensureCollectionExists', () => {
 
 describe('isTokenReserved', () => {
   it('should return true if tokenId is contained in the reservedTokens array of the collection', () => {
-    expect(isTokenReserved(database, 'collection', 1)).toEqual(true);
+    expect(isTokenReserved(store, 'collection', 1n)).toEqual(true);
   });
   it('should return false if tokenId is not contained in the reservedTokens array of the collection', () => {
-    expect(isTokenReserved(database, 'collection', 0)).toEqual(false);
+    expect(isTokenReserved(store, 'collection', 0n)).toEqual(false);
   });
   it('should return false if there is no reservedTokens array on the collection', () => {
-    expect(isTokenReserved(database, 'collectionNoReserved', 0)).toEqual(false);
+    expect(isTokenReserved(store, 'collectionNoReserved', 0n)).toEqual(false);
   });
 });
 
 describe('isCollectionRevealed', () => {
   it('should return true if current time is greater then the revealTime of the collection', () => {
-    expect(isCollectionRevealed(database, 'collection')).toEqual(true);
+    expect(isCollectionRevealed(store, 'collection')).toEqual(true);
   });
   it('should return true if there is no revealTime property on the collection', () => {
-    expect(isCollectionRevealed(database, 'collectionNoReserved')).toEqual(
-      true
-    );
+    expect(isCollectionRevealed(store, 'collectionNoReserved')).toEqual(true);
   });
   it('should return false if the revealTime value of the collection is greater then the current time', () => {
-    expect(isCollectionRevealed(database, 'collectionFutureReveal')).toEqual(
+    expect(isCollectionRevealed(store, 'collectionFutureReveal')).toEqual(
+      false
+    );
+  });
+  it('should return false for collections revealed on chain', () => {
+    expect(isCollectionRevealed(store, 'collectionContractReveal')).toEqual(
       false
     );
   });
 });
 
+describe('isCollectionRevealedOnNetwork', () => {
+  const contractService = {
+    isRevealed: jest.fn().mockResolvedValue(true),
+  } as unknown as ContractService;
+
+  it('should use the reveal time for time based collections', async () => {
+    await expect(
+      isCollectionRevealedOnNetwork(
+        store,
+        contractService,
+        'collectionFutureReveal',
+        'lol'
+      )
+    ).resolves.toEqual(false);
+    expect(contractService.isRevealed).not.toHaveBeenCalled();
+  });
+
+  it('should ask the contract service for collections revealed on chain', async () => {
+    await expect(
+      isCollectionRevealedOnNetwork(
+        store,
+        contractService,
+        'collectionContractReveal',
+        'lol'
+      )
+    ).resolves.toEqual(true);
+    expect(contractService.isRevealed).toHaveBeenCalledWith(
+      'collectionContractReveal',
+      'lol'
+    );
+  });
+});
+
+describe('reveal phases', () => {
+  it('should reveal the tokens of past phases only', () => {
+    expect(isCollectionRevealed(store, 'collectionPhases', 0n)).toEqual(true);
+    expect(isCollectionRevealed(store, 'collectionPhases', 3n)).toEqual(false);
+    expect(isCollectionRevealed(store, 'collectionPhases', 2000n)).toEqual(
+      false
+    );
+  });
+  it('should use the first matching phase, so manual phases can override ranges', () => {
+    expect(getRevealPhase(store, 'collectionPhases', 1n)?.revealed).toEqual(
+      false
+    );
+    expect(isCollectionRevealed(store, 'collectionPhases', 1n)).toEqual(false);
+  });
+  it('should use the collection reveal for tokens outside of phases', () => {
+    expect(getRevealPhase(store, 'collectionPhases', -1n)).toBeUndefined();
+    expect(isCollectionRevealed(store, 'collectionPhases', -1n)).toEqual(true);
+  });
+  it('should resolve the placeholder of the phase', () => {
+    expect(getPlaceholderId(store, 'collectionPhases', 1n)).toEqual('oneOfOne');
+    expect(getPlaceholderId(store, 'collectionPhases', 3n)).toEqual(
+      'placeholder'
+    );
+  });
+  it('should reserve token ranges', () => {
+    expect(isTokenReserved(store, 'collectionPhases', 8n)).toEqual(true);
+    expect(isTokenReserved(store, 'collectionPhases', 9n)).toEqual(true);
+    expect(isTokenReserved(store, 'collectionPhases', 10n)).toEqual(false);
+  });
+  it('should serve the placeholder of the phase from the handler', async () => {
+    const req = {
+      params: {
+        collectionName: 'collectionPhases',
+        tokenId: 1,
+      },
+    } as unknown as express.Request;
+
+    await createWithoutEthers(store)(req, res);
+
+    expect(res.json).toHaveBeenCalledWith(
+      database.collectionPhases.tokens.oneOfOne
+    );
+  });
+});
+
+describe('placeholder variants', () => {
+  it('should select the variant by range, trait or as the default', () => {
+    expect(getPlaceholderId(store, 'collectionMysteryBoxes', 5n)).toEqual(
+      'gold'
+    );
+    expect(getPlaceholderId(store, 'collectionMysteryBoxes', 42n)).toEqual(
+      'silver'
+    );
+    expect(getPlaceholderId(store, 'collectionMysteryBoxes', 43n)).toEqual(
+      'bronze'
+    );
+    expect(getPlaceholderId(store, 'collection', 0n)).toEqual('placeholder');
+  });
+
+  it('should not select the variant by the trait of reserved tokens', () => {
+    const reservedStore = new InMemoryMetadataStore({
+      collectionMysteryBoxes: {
+        ...database.collectionMysteryBoxes,
+        reservedTokens: [42],
+      },
+    } as unknown as TokenDatabase);
+
+    expect(
+      getPlaceholderId(reservedStore, 'collectionMysteryBoxes', 42n)
+    ).toEqual('bronze');
+  });
+
+  it('should serve the variant with the token number filled in', async () => {
+    const req = {
+      params: {
+        collectionName: 'collectionMysteryBoxes',
+        tokenId: 42,
+      },
+    } as unknown as express.Request;
+
+    await createWithoutEthers(store)(req, res);
+
+    expect(res.json).toHaveBeenCalledWith({ name: 'Silver Box #42' });
+  });
+});
+
+describe('metadata defaults and templates', () => {
+  afterEach(() => jest.clearAllMocks());
+
+  it('should merge the defaults into the token and render the templates', async () => {
+    const req = {
+      params: {
+        collectionName: 'collectionDefaults',
+        tokenId: 0,
+        networkName: 'lol',
+      },
+    } as unknown as express.Request;
+
+    await createWithoutEthers(store)(req, res);
+
+    expect(res.json).toHaveBeenCalledWith({
+      name: 'name0',
+      description: 'Token 0 of collectionDefaults on lol',
+      image: 'ipfs://Qm/0.png',
+      external_url: 'https://example.com/collectionDefaults/0',
+    });
+  });
+
+  it('should let tokens override the defaults', async () => {
+    const req = {
+      params: {
+        collectionName: 'collectionDefaults',
+        tokenId: 1,
+        networkName: 'lol',
+      },
+    } as unknown as express.Request;
+
+    await createWithoutEthers(store)(req, res);
+
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'name1', image: 'ipfs://Qm/special.png' })
+    );
+  });
+
+  it('should rewrite the URIs as requested', async () => {
+    const req = {
+      params: {
+        collectionName: 'collectionDefaults',
+        tokenId: 0,
+        networkName: 'lol',
+      },
+      query: { uris: 'both' },
+    } as unknown as express.Request;
+
+    await createWithoutEthers(store, defaultApiConfig)(req, res);
+
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        image: 'https://ipfs.io/ipfs/Qm/0.png',
+        image_raw: 'ipfs://Qm/0.png',
+      })
+    );
+  });
+
+  it('should not apply the defaults to placeholders', () => {
+    expect(
+      getServedMetadata(
+        store,
+        { collectionName: 'collection', tokenId: 1n, networkName: 'lol' },
+        undefined
+      )
+    ).toEqual(database.collection.tokens.placeholder);
+  });
+});
+
 describe('ensureDeploymentNetwork', () => {
   it('should not throw if deployment network exists for the collection', () => {
     expect(() =>
-      ensureDeploymentNetwork(database, 'collection', 'lol')
+      ensureDeploymentNetwork(store, 'collection', 'lol')
     ).not.toThrow();
   });
   it('should throw if deployment network does not exist', () => {
-    expect(() =>
-      ensureDeploymentNetwork(database, 'collection', 'lal')
-    ).toThrow(HttpError);
+    expect(() => ensureDeploymentNetwork(store, 'collection', 'lal')).toThrow(
+      HttpError
+    );
   });
 });
 
 const res = {
   json: jest.fn(),
+  set: jest.fn(),
   status: jest.fn().mockImplementation(() => ({
     send: jest.fn(),
   })),
@@ -180,7 +583,7 @@ describe('api handler without ethers', () => {
         tokenId: 0,
       },
     } as unknown as express.Request;
-    const handler = createWithoutEthers(database);
+    const handler = createWithoutEthers(store);
 
     await handler(req, res);
 
@@ -194,7 +597,7 @@ describe('api handler without ethers', () => {
         tokenId: 2,
       },
     } as unknown as express.Request;
-    const handler = createWithoutEthers(database);
+    const handler = createWithoutEthers(store);
 
     await handler(req, res);
 
@@ -210,7 +613,7 @@ describe('api handler without ethers', () => {
         tokenId: 0,
       },
     } as unknown as express.Request;
-    const handler = createWithoutEthers(database);
+    const handler = createWithoutEthers(store);
 
     await handler(req, res);
 
@@ -225,7 +628,7 @@ describe('api handler without ethers', () => {
         tokenId: 5,
       },
     } as unknown as express.Request;
-    const handler = createWithoutEthers(database);
+    const handler = createWithoutEthers(store);
 
     await handler(req, res);
 
@@ -240,7 +643,7 @@ describe('api handler without ethers', () => {
         tokenId: 2,
       },
     } as unknown as express.Request;
-    const handler = createWithoutEthers(database);
+    const handler = createWithoutEthers(store);
 
     await handler(req, res);
 
@@ -249,6 +652,214 @@ describe('api handler without ethers', () => {
   });
 });
 
+describe('ERC1155 collections', () => {
+  afterEach(() => jest.clearAllMocks());
+
+  const hexId =
+    '000000000000000000000000000000000000000000000000000000000000001a';
+
+  it('should accept decimal and hex token ids, and substitute {id}', async () => {
+    const handler = createWithoutEthers(store);
+
+    for (const tokenId of ['26', hexId]) {
+      await handler(
+        {
+          params: { collectionName: 'collection1155', tokenId },
+        } as unknown as express.Request,
+        res
+      );
+    }
+
+    expect(res.json).toHaveBeenCalledTimes(2);
+    expect(res.json).toHaveBeenNthCalledWith(1, {
+      name: 'name26',
+      image: `https://example.com/${hexId}.png`,
+    });
+    expect(res.json).toHaveBeenNthCalledWith(2, {
+      name: 'name26',
+      image: `https://example.com/${hexId}.png`,
+    });
+  });
+
+  it('should not substitute {id} for ERC721 collections', () => {
+    expect(
+      getServedMetadata(
+        new InMemoryMetadataStore({
+          collection721: {
+            ...database.collection1155,
+            contract: { deployments: {} },
+          },
+        }),
+        { collectionName: 'collection721', tokenId: 26n, networkName: 'lol' },
+        26n
+      ).image
+    ).toEqual('https://example.com/{id}.png');
+  });
+});
+
+describe('uint256 token ids', () => {
+  afterEach(() => jest.clearAllMocks());
+
+  const id = 2n ** 255n;
+
+  it('should not lose precision for ids beyond Number.MAX_SAFE_INTEGER', async () => {
+    const handler = createWithoutEthers(store);
+
+    for (const tokenId of [id.toString(), (id + 1n).toString()]) {
+      await handler(
+        {
+          params: { collectionName: 'collectionLargeIds', tokenId },
+        } as unknown as express.Request,
+        res
+      );
+    }
+
+    expect(res.json).toHaveBeenNthCalledWith(1, { name: '2^255' });
+    expect(res.json).toHaveBeenNthCalledWith(2, { name: 'placeholder' });
+  });
+
+  it('should reserve tokens by string ids', () => {
+    expect(isTokenReserved(store, 'collectionLargeIds', id)).toEqual(false);
+    expect(isTokenReserved(store, 'collectionLargeIds', id + 1n)).toEqual(true);
+  });
+
+  it('should pass the exact id to the contract service', async () => {
+    const contractService = {
+      exists: jest.fn().mockResolvedValueOnce(true),
+    } as unknown as ContractService;
+
+    await createWithEthers(store, contractService)(
+      {
+        params: {
+          collectionName: 'collectionLargeIds',
+          tokenId: id.toString(),
+          networkName: 'lol',
+        },
+      } as unknown as express.Request,
+      res
+    );
+
+    expect(contractService.exists).toHaveBeenCalledWith(
+      'collectionLargeIds',
+      'lol',
+      id,
+      { stale: false }
+    );
+    expect(res.json).toHaveBeenCalledWith({ name: '2^255' });
+  });
+});
+
+describe('request validation', () => {
+  afterEach(() => jest.clearAllMocks());
+
+  const contractService = {
+    exists: jest.fn().mockResolvedValue(true),
+  } as unknown as ContractService;
+  const request = (collectionName: string, tokenId: string) =>
+    createWithEthers(store, contractService)(
+      {
+        params: { collectionName, tokenId, networkName: 'lol' },
+      } as unknown as express.Request,
+      res
+    );
+
+  it('should throw 400 for non-canonical token ids', async () => {
+    const invalidIds = [
+      '12abc',
+      'abc',
+      '',
+      '012',
+      '+1',
+      '-1',
+      ' 1',
+      '1e3',
+      '0x1',
+      (2n ** 256n).toString(),
+      `${'0'.repeat(63)}1`,
+    ];
+    for (const tokenId of invalidIds) {
+      await request('collection', tokenId);
+    }
+
+    expect(res.status).toHaveBeenCalledTimes(invalidIds.length);
+    mocked(res.status).mock.calls.forEach(([status]) =>
+      expect(status).toEqual(400)
+    );
+    expect(contractService.exists).not.toHaveBeenCalled();
+  });
+
+  it('should accept the largest uint256 id', () => {
+    expect(
+      extractParams(store, {
+        params: {
+          collectionName: 'collection',
+          tokenId: (2n ** 256n - 1n).toString(),
+        },
+      } as unknown as express.Request).tokenId
+    ).toEqual(2n ** 256n - 1n);
+  });
+
+  it('should throw 404 for ids out of the bounds of the collection, without calling the contract', async () => {
+    await request('collectionBounds', '0');
+    await request('collectionBounds', '4');
+
+    expect(res.status).toHaveBeenCalledTimes(2);
+    expect(res.status).toHaveBeenNthCalledWith(1, 404);
+    expect(res.status).toHaveBeenNthCalledWith(2, 404);
+    expect(contractService.exists).not.toHaveBeenCalled();
+
+    await request('collectionBounds', '1');
+
+    expect(res.json).toHaveBeenCalledWith({ name: 'name1' });
+  });
+});
+
+describe('api handler with provenance', () => {
+  afterEach(() => jest.clearAllMocks());
+
+  const req = {
+    params: {
+      collectionName: 'collectionProvenance',
+      tokenId: 2,
+      networkName: 'lol',
+    },
+  } as unknown as express.Request;
+
+  it('should return the artwork at the static starting index offset', async () => {
+    await createWithoutEthers(store)(req, res);
+
+    expect(res.json).toHaveBeenCalledWith(
+      database.collectionProvenance.tokens[0]
+    );
+  });
+
+  it('should return the artwork at the starting index read from the contract', async () => {
+    const contractService = {
+      exists: jest.fn().mockResolvedValue(true),
+      getStartingIndex: jest.fn().mockResolvedValue(2),
+    } as unknown as ContractService;
+
+    await createWithEthers(store, contractService)(req, res);
+
+    expect(res.json).toHaveBeenCalledWith(
+      database.collectionProvenance.tokens[1]
+    );
+  });
+
+  it('should return the placeholder until the starting index is set', async () => {
+    const contractService = {
+      exists: jest.fn().mockResolvedValue(true),
+      getStartingIndex: jest.fn().mockResolvedValue(undefined),
+    } as unknown as ContractService;
+
+    await createWithEthers(store, contractService)(req, res);
+
+    expect(res.json).toHaveBeenCalledWith(
+      database.collectionProvenance.tokens.placeholder
+    );
+  });
+});
+
 describe('api handler with ethers', () => {
   afterEach(() => jest.clearAllMocks());
 
@@ -262,7 +873,7 @@ describe('api handler with ethers', () => {
     } as unknown as express.Request;
     const contractService = {} as unknown as ContractService;
 
-    const handler = createWithEthers(database, contractService);
+    const handler = createWithEthers(store, contractService);
 
     await handler(req, res);
 
@@ -271,6 +882,24 @@ describe('api handler with ethers', () => {
   });
 
   it('should throw if contract is not deployed to the network', async () => {
+    const req = {
+      params: {
+        collectionName: 'collectionDefaults',
+        tokenId: 0,
+        networkName: 'lel',
+      },
+    } as unknown as express.Request;
+    const contractService = {} as unknown as ContractService;
+
+    const handler = createWithEthers(store, contractService);
+
+    await handler(req, res);
+
+    expect(res.status).toHaveBeenCalledTimes(1);
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('should throw 400 if the network is unknown', async () => {
     const req = {
       params: {
         collectionName: 'collection',
@@ -280,12 +909,12 @@ describe('api handler with ethers', () => {
     } as unknown as express.Request;
     const contractService = {} as unknown as ContractService;
 
-    const handler = createWithEthers(database, contractService);
+    const handler = createWithEthers(store, contractService);
 
     await handler(req, res);
 
     expect(res.status).toHaveBeenCalledTimes(1);
-    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.status).toHaveBeenCalledWith(400);
   });
 
   const contractService = {
@@ -303,7 +932,7 @@ describe('api handler with ethers', () => {
 
     mocked(contractService.exists).mockResolvedValueOnce(false);
 
-    const handler = createWithEthers(database, contractService);
+    const handler = createWithEthers(store, contractService);
 
     await handler(req, res);
 
@@ -323,7 +952,7 @@ describe('api handler with ethers', () => {
 
     mocked(contractService.exists).mockResolvedValueOnce(true);
 
-    const handler = createWithEthers(database, contractService);
+    const handler = createWithEthers(store, contractService);
 
     await handler(req, res);
 
@@ -343,7 +972,7 @@ describe('api handler with ethers', () => {
 
     mocked(contractService.exists).mockResolvedValueOnce(true);
 
-    const handler = createWithEthers(database, contractService);
+    const handler = createWithEthers(store, contractService);
 
     await handler(req, res);
 
@@ -361,7 +990,7 @@ describe('api handler with ethers', () => {
 
     mocked(contractService.exists).mockResolvedValueOnce(true);
 
-    const handler = createWithEthers(database, contractService);
+    const handler = createWithEthers(store, contractService);
 
     await handler(req, res);
 
@@ -369,6 +998,28 @@ describe('api handler with ethers', () => {
     expect(res.status).toHaveBeenCalledWith(404);
   });
 
+  it('should return the placeholder token, if the chain says the collection is not revealed', async () => {
+    const req = {
+      params: {
+        collectionName: 'collectionContractReveal',
+        tokenId: 0,
+        networkName: 'lol',
+      },
+    } as unknown as express.Request;
+    const revealContractService = {
+      exists: jest.fn().mockResolvedValue(true),
+      isRevealed: jest.fn().mockResolvedValue(false),
+    } as unknown as ContractService;
+
+    const handler = createWithEthers(store, revealContractService);
+
+    await handler(req, res);
+
+    expect(res.json).toHaveBeenCalledWith(
+      database.collectionContractReveal.tokens.placeholder
+    );
+  });
+
   it('should throw if placeholder is not found', async () => {
     const req = {
       params: {
@@ -380,7 +1031,7 @@ describe('api handler with ethers', () => {
 
     mocked(contractService.exists).mockResolvedValueOnce(true);
 
-    const handler = createWithEthers(database, contractService);
+    const handler = createWithEthers(store, contractService);
 
     await handler(req, res);
 
@@ -388,3 +1039,278 @@ describe('api handler with ethers', () => {
     expect(res.status).toHaveBeenCalledWith(404);
   });
 });
+
+describe('contract state', () => {
+  const evolvingStore = new InMemoryMetadataStore({
+    evolving: {
+      contract: { deployments: { lol: { address: '0x0' } } },
+      contractState: {
+        level: {
+          signature: 'function getLevel(uint256) view returns (uint256)',
+          variants: 'stages',
+        },
+      },
+      tokens: {
+        0: { name: 'name0', image: 'egg', stages: [{}, { image: 'chick' }] },
+      },
+    },
+  } as unknown as TokenDatabase);
+  const req = {
+    params: { collectionName: 'evolving', tokenId: '0', networkName: 'lol' },
+  } as unknown as express.Request;
+
+  it('should select the variant by the contract state', async () => {
+    const contractService = {
+      exists: jest.fn().mockResolvedValue(true),
+      viewCall: jest.fn().mockResolvedValue(1),
+    } as unknown as ContractService;
+    const stateRes = {
+      json: jest.fn(),
+      set: jest.fn(),
+    } as unknown as express.Response;
+
+    await createWithEthers(evolvingStore, contractService)(req, stateRes);
+
+    expect(stateRes.json).toHaveBeenCalledWith({
+      name: 'name0',
+      image: 'chick',
+    });
+  });
+
+  it('should not serve the variants without ethers', async () => {
+    const stateRes = {
+      json: jest.fn(),
+      set: jest.fn(),
+    } as unknown as express.Response;
+
+    await createWithoutEthers(evolvingStore)(req, stateRes);
+
+    expect(stateRes.json).toHaveBeenCalledWith({
+      name: 'name0',
+      image: 'egg',
+    });
+  });
+});
+
+describe('resolvers', () => {
+  it('should merge the output of the resolvers into visible tokens', async () => {
+    const contractService = {
+      exists: jest.fn().mockResolvedValue(true),
+      getOwner: jest.fn().mockResolvedValue('0x1'),
+    } as unknown as ContractService;
+    const resolverRes = {
+      json: jest.fn(),
+      set: jest.fn(),
+    } as unknown as express.Response;
+
+    await createWithEthers(store, contractService, {
+      ...defaultApiConfig,
+      resolvers: {
+        collection: [{ resolve: ({ owner }) => ({ holder: owner }) }],
+      },
+    })(
+      {
+        params: {
+          collectionName: 'collection',
+          tokenId: '0',
+          networkName: 'lol',
+        },
+      } as unknown as express.Request,
+      resolverRes
+    );
+
+    expect(resolverRes.json).toHaveBeenCalledWith({
+      ...database.collection.tokens[0],
+      holder: '0x1',
+    });
+  });
+});
+
+describe('degraded responses', () => {
+  it('should flag responses built from cached chain state', async () => {
+    const contractService = {
+      exists: jest
+        .fn()
+        .mockImplementation(async (_c, _n, _t, reads: ChainReads) => {
+          reads.stale = true;
+          return true;
+        }),
+    } as unknown as ContractService;
+    const degradedRes = {
+      json: jest.fn(),
+      set: jest.fn(),
+    } as unknown as express.Response;
+
+    await createWithEthers(store, contractService)(
+      {
+        params: {
+          collectionName: 'collection',
+          tokenId: '0',
+          networkName: 'lol',
+        },
+      } as unknown as express.Request,
+      degradedRes
+    );
+
+    expect(degradedRes.set).toHaveBeenCalledWith(degradedHeader, 'stale');
+    expect(degradedRes.json).toHaveBeenCalledWith(
+      database.collection.tokens[0]
+    );
+  });
+
+  it('should not flag responses of fresh lookups while the provider fails', async () => {
+    const contractService = {
+      exists: jest.fn().mockResolvedValue(true),
+      isDegraded: jest.fn().mockReturnValue(true),
+    } as unknown as ContractService;
+    const freshRes = {
+      json: jest.fn(),
+      set: jest.fn(),
+    } as unknown as express.Response;
+
+    await createWithEthers(store, contractService)(
+      {
+        params: {
+          collectionName: 'collection',
+          tokenId: '0',
+          networkName: 'lol',
+        },
+      } as unknown as express.Request,
+      freshRes
+    );
+
+    expect(freshRes.set).not.toHaveBeenCalledWith(degradedHeader, 'stale');
+    expect(freshRes.json).toHaveBeenCalledWith(database.collection.tokens[0]);
+  });
+});
+
+describe('collection handler', () => {
+  afterEach(() => jest.clearAllMocks());
+
+  it('should return the collection metadata', async () => {
+    const req = {
+      params: {
+        collectionName: 'collection',
+        networkName: 'lol',
+      },
+    } as unknown as express.Request;
+
+    await createCollectionHandler(store)(req, res);
+
+    expect(res.json).toHaveBeenCalledWith({
+      name: 'Collection',
+      seller_fee_basis_points: 250,
+      fee_recipient: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    });
+  });
+
+  it('should apply the overrides of the network', async () => {
+    const req = {
+      params: {
+        collectionName: 'collection',
+        networkName: 'lel',
+      },
+    } as unknown as express.Request;
+
+    await createCollectionHandler(store)(req, res);
+
+    expect(res.json).toHaveBeenCalledWith({
+      name: 'Collection',
+      seller_fee_basis_points: 250,
+      fee_recipient: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    });
+  });
+
+  it('should throw if the collection has no collection metadata', async () => {
+    const req = {
+      params: {
+        collectionName: 'collectionNoReserved',
+        networkName: 'lol',
+      },
+    } as unknown as express.Request;
+
+    await createCollectionHandler(store)(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('should throw if the collection is not deployed to the network', async () => {
+    const req = {
+      params: {
+        collectionName: 'collectionDefaults',
+        networkName: 'lel',
+      },
+    } as unknown as express.Request;
+
+    await createCollectionHandler(store)(req, res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+
+  it('should throw 400 only for networks unknown to the store and ethers', async () => {
+    for (const networkName of [
+      'lal',
+      'constructor',
+      'toString',
+      'hasOwnProperty',
+      'mainnet',
+    ]) {
+      await createCollectionHandler(store)(
+        {
+          params: { collectionName: 'collection', networkName },
+        } as unknown as express.Request,
+        res
+      );
+    }
+
+    expect(res.status).toHaveBeenCalledTimes(5);
+    expect(res.status).toHaveBeenNthCalledWith(1, 400);
+    expect(res.status).toHaveBeenNthCalledWith(2, 400);
+    expect(res.status).toHaveBeenNthCalledWith(3, 400);
+    expect(res.status).toHaveBeenNthCalledWith(4, 400);
+    expect(res.status).toHaveBeenNthCalledWith(5, 404);
+  });
+});
+
+describe('unknown collections', () => {
+  it('should answer 404 for Object.prototype members', async () => {
+    const notFoundRes = {
+      status: jest.fn().mockReturnThis(),
+      send: jest.fn(),
+    } as unknown as express.Response;
+
+    for (const collectionName of [
+      'constructor',
+      'toString',
+      '__proto__',
+      'hasOwnProperty',
+    ]) {
+      await createWithoutEthers(store)(
+        {
+          params: { collectionName, tokenId: '1', networkName: 'mainnet' },
+        } as unknown as express.Request,
+        notFoundRes
+      );
+    }
+
+    expect(mocked(notFoundRes.status).mock.calls).toEqual([
+      [404],
+      [404],
+      [404],
+      [404],
+    ]);
+  });
+});
+
+describe('api', () => {
+  it('should validate the database at startup', () => {
+    expect(() => api(database)).toThrow(DatabaseValidationError);
+  });
+
+  it('should create the handler without validation, if turned off', () => {
+    const { handler, contractService } = api(store, { validation: 'off' });
+
+    expect(handler).toBeInstanceOf(Function);
+    expect(contractService).toBeUndefined();
+  });
+});
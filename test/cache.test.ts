@@ -0,0 +1,110 @@
+import Database from 'better-sqlite3';
+import LruChainStateCache from '../src/cache/LruChainStateCache';
+import SqliteChainStateCache from '../src/cache/SqliteChainStateCache';
+
+describe('LruChainStateCache', () => {
+  it('should evict the least recently used entries', async () => {
+    const cache = new LruChainStateCache(2);
+    await cache.set('collection', 'network', 'a', {
+      value: true,
+      timestamp: 1,
+    });
+    await cache.set('collection', 'network', 'b', {
+      value: true,
+      timestamp: 2,
+    });
+    await cache.get('collection', 'network', 'a');
+    await cache.set('collection', 'network', 'c', {
+      value: false,
+      timestamp: 3,
+    });
+
+    await expect(cache.get('collection', 'network', 'a')).resolves.toEqual({
+      value: true,
+      timestamp: 1,
+    });
+    await expect(
+      cache.get('collection', 'network', 'b')
+    ).resolves.toBeUndefined();
+    await expect(cache.get('collection', 'network', 'c')).resolves.toEqual({
+      value: false,
+      timestamp: 3,
+    });
+  });
+
+  it('should clear the entries of a deployment', async () => {
+    const cache = new LruChainStateCache();
+    await cache.set('collection', 'network0', 'a', {
+      value: true,
+      timestamp: 1,
+    });
+    await cache.set('collection', 'network1', 'a', {
+      value: true,
+      timestamp: 1,
+    });
+    await cache.clear('collection', 'network0');
+
+    await expect(
+      cache.get('collection', 'network0', 'a')
+    ).resolves.toBeUndefined();
+    await expect(cache.get('collection', 'network1', 'a')).resolves.toEqual({
+      value: true,
+      timestamp: 1,
+    });
+  });
+});
+
+describe('SqliteChainStateCache', () => {
+  const db = new Database(':memory:');
+
+  afterAll(() => db.close());
+
+  it('should share the state between the caches of the database', async () => {
+    await new SqliteChainStateCache(db).set('collection', 'network', 'a', {
+      value: true,
+      timestamp: 1.5,
+    });
+    const cache = new SqliteChainStateCache(db);
+
+    await expect(cache.get('collection', 'network', 'a')).resolves.toEqual({
+      value: true,
+      timestamp: 1.5,
+    });
+    await expect(
+      cache.get('collection', 'network', 'b')
+    ).resolves.toBeUndefined();
+  });
+
+  it('should store JSON values', async () => {
+    const cache = new SqliteChainStateCache(db);
+    const value = { tokenIds: ['1', '2'], block: 200 };
+    await cache.set('collection', 'network', 'minted', {
+      value,
+      timestamp: 1,
+    });
+    await cache.set('collection', 'network', 'startingIndex', {
+      value: null,
+      timestamp: 1,
+    });
+
+    await expect(cache.get('collection', 'network', 'minted')).resolves.toEqual(
+      { value, timestamp: 1 }
+    );
+    await expect(
+      cache.get('collection', 'network', 'startingIndex')
+    ).resolves.toEqual({ value: null, timestamp: 1 });
+  });
+
+  it('should clear the entries of a deployment', async () => {
+    const cache = new SqliteChainStateCache(db);
+    await cache.set('collection', 'network', 'b', {
+      value: false,
+      timestamp: 2,
+    });
+    await cache.clear('collection', 'network');
+
+    await expect(
+      cache.get('collection', 'network', 'b')
+    ).resolves.toBeUndefined();
+  });
+});
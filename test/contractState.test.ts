@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+import { applyContractState, omitVariants } from '../src/api/contractState';
+import { IContractService } from '../src/types/IContractService';
+
+const getLevel = 'function getLevel(uint256) view returns (uint256)';
+
+const token = {
+  name: 'name0',
+  image: 'ipfs://egg',
+  attributes: [
+    { trait_type: 'Background', value: 'Gold' },
+    { trait_type: 'Level', value: 0 },
+  ],
+  stages: [{}, { image: 'ipfs://chick' }, { image: 'ipfs://hen' }],
+};
+
+const createContractService = (result: unknown) =>
+  ({
+    viewCall: jest.fn().mockResolvedValue(result),
+    getOwner: jest.fn().mockResolvedValue('0x1'),
+  } as unknown as IContractService);
+
+describe('applyContractState', () => {
+  it('should select the variant, and serve the result as an attribute', async () => {
+    const contractService = createContractService(ethers.BigNumber.from(2));
+
+    await expect(
+      applyContractState(
+        {
+          level: {
+            signature: getLevel,
+            attribute: 'Level',
+            variants: 'stages',
+          },
+        },
+        contractService,
+        'collection',
+        'lol',
+        0n,
+        token
+      )
+    ).resolves.toEqual({
+      name: 'name0',
+      image: 'ipfs://hen',
+      attributes: [
+        { trait_type: 'Background', value: 'Gold' },
+        { trait_type: 'Level', value: 2 },
+      ],
+    });
+    expect(contractService.viewCall).toHaveBeenCalledWith(
+      'collection',
+      'lol',
+      getLevel,
+      [0n]
+    );
+    expect(contractService.getOwner).not.toHaveBeenCalled();
+  });
+
+  it('should serve the token without variants for unknown results', async () => {
+    await expect(
+      applyContractState(
+        { level: { signature: getLevel, variants: 'stages' } },
+        createContractService(ethers.BigNumber.from(7)),
+        'collection',
+        'lol',
+        0n,
+        token
+      )
+    ).resolves.toEqual(
+      omitVariants(
+        { level: { signature: getLevel, variants: 'stages' } },
+        token
+      )
+    );
+  });
+
+  it('should serve large numbers as strings, and pass the owner', async () => {
+    const contractService = createContractService(
+      ethers.BigNumber.from(2).pow(64)
+    );
+
+    await expect(
+      applyContractState(
+        {
+          points: {
+            signature: 'function points(address) view returns (uint256)',
+            args: ['{{owner}}'],
+            attribute: 'Points',
+          },
+        },
+        contractService,
+        'collection',
+        'lol',
+        0n,
+        { name: 'name0' }
+      )
+    ).resolves.toEqual({
+      name: 'name0',
+      attributes: [{ trait_type: 'Points', value: '18446744073709551616' }],
+    });
+    expect(contractService.viewCall).toHaveBeenCalledWith(
+      'collection',
+      'lol',
+      'function points(address) view returns (uint256)',
+      ['0x1']
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { applyDefaults } from '../src/api/defaults';
+
+describe('applyDefaults', () => {
+  it('should return the metadata without defaults', () => {
+    const metadata = { name: 'name0' };
+    expect(applyDefaults(undefined, metadata)).toBe(metadata);
+  });
+
+  it('should deep merge the metadata into the defaults', () => {
+    expect(
+      applyDefaults(
+        {
+          description: 'description',
+          properties: { artist: 'artist', license: 'CC0' },
+        },
+        { name: 'name0', properties: { license: 'MIT' } }
+      )
+    ).toEqual({
+      name: 'name0',
+      description: 'description',
+      properties: { artist: 'artist', license: 'MIT' },
+    });
+  });
+
+  it('should replace arrays instead of merging them', () => {
+    expect(
+      applyDefaults(
+        { attributes: [{ trait_type: 'Artist', value: 'artist' }, 'x'] },
+        { attributes: [{ trait_type: 'Background', value: 'Gold' }] }
+      )
+    ).toEqual({ attributes: [{ trait_type: 'Background', value: 'Gold' }] });
+  });
+});
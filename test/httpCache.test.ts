@@ -0,0 +1,186 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import {
+  getETag,
+  getTokenCachePolicy,
+  matchesETag,
+} from '../src/api/httpCache';
+import { createRouter } from '../src/api/router';
+import defaultApiConfig from '../src/api/defaultApiConfig';
+import InMemoryMetadataStore from '../src/stores/InMemoryMetadataStore';
+import { TokenDatabase } from '../src/types/TokenDatabase';
+import { IContractService } from '../src/types/IContractService';
+
+const database = {
+  collection: {
+    contract: {
+      deployments: {
+        lol: { address: '0x5FbDB2315678afecb367f032d93F642f64180aa3' },
+      },
+    },
+    collection: { name: 'Collection' },
+    tokens: {
+      0: { name: 'name0' },
+      placeholder: { name: 'placeholder' },
+    },
+  },
+} as unknown as TokenDatabase;
+
+const params = {
+  collectionName: 'collection',
+  networkName: 'lol',
+  tokenId: 0n,
+};
+
+describe('ETags', () => {
+  it('should be stable for the same body', () => {
+    expect(getETag({ name: 'name0' })).toEqual(getETag({ name: 'name0' }));
+    expect(getETag({ name: 'name0' })).not.toEqual(getETag({ name: 'name1' }));
+  });
+
+  it('should match If-None-Match lists, weak tags and *', () => {
+    const etag = getETag({ name: 'name0' });
+    expect(matchesETag(`"other", W/${etag}`, etag)).toBe(true);
+    expect(matchesETag('*', etag)).toBe(true);
+    expect(matchesETag('"other"', etag)).toBe(false);
+    expect(matchesETag(undefined, etag)).toBe(false);
+  });
+});
+
+describe('getTokenCachePolicy', () => {
+  const store = new InMemoryMetadataStore(database);
+
+  beforeEach(() => jest.spyOn(Date, 'now').mockReturnValue(1000000));
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should serve revealed tokens as immutable', () => {
+    expect(getTokenCachePolicy(store, params, 0n, defaultApiConfig)).toEqual({
+      maxAge: defaultApiConfig.httpCache.revealedMaxAgeSeconds,
+      immutable: true,
+    });
+  });
+
+  it('should not serve tokens as immutable while they can change', () => {
+    const contractService = {} as unknown as IContractService;
+    const burnable = new InMemoryMetadataStore({
+      collection: {
+        ...database.collection,
+        existence: { type: 'totalSupply', burnable: true },
+      },
+    } as unknown as TokenDatabase);
+    const indexed = new InMemoryMetadataStore({
+      collection: {
+        ...database.collection,
+        existence: { type: 'transferEvents' },
+      },
+    } as unknown as TokenDatabase);
+    const shortPolicy = {
+      maxAge: defaultApiConfig.httpCache.defaultMaxAgeSeconds,
+    };
+
+    expect(
+      getTokenCachePolicy(
+        store,
+        params,
+        0n,
+        defaultApiConfig,
+        contractService,
+        true
+      )
+    ).toEqual(shortPolicy);
+    expect(getTokenCachePolicy(burnable, params, 0n, defaultApiConfig)).toEqual(
+      shortPolicy
+    );
+    expect(getTokenCachePolicy(indexed, params, 0n, defaultApiConfig)).toEqual(
+      shortPolicy
+    );
+    expect(
+      getTokenCachePolicy(store, params, 0n, {
+        ...defaultApiConfig,
+        rarity: { inject: true, key: 'rarity' },
+      })
+    ).toEqual(shortPolicy);
+  });
+
+  it('should not cache placeholders past the reveal time', () => {
+    const revealing = new InMemoryMetadataStore({
+      collection: { ...database.collection, revealTime: 1010500 },
+    } as unknown as TokenDatabase);
+
+    expect(
+      getTokenCachePolicy(revealing, params, undefined, defaultApiConfig)
+    ).toEqual({ maxAge: 11 });
+    expect(
+      getTokenCachePolicy(store, params, undefined, defaultApiConfig)
+    ).toEqual({ maxAge: defaultApiConfig.httpCache.placeholderMaxAgeSeconds });
+  });
+
+  it('should not cache placeholders past the existence cache TTL', () => {
+    expect(
+      getTokenCachePolicy(
+        store,
+        params,
+        undefined,
+        { ...defaultApiConfig, totalSupplyCacheTTlSeconds: 5 },
+        {} as IContractService
+      )
+    ).toEqual({ maxAge: 5 });
+  });
+});
+
+describe('conditional requests', () => {
+  const server = express().use(createRouter(database)).listen(0);
+  const get = (
+    path: string,
+    headers: http.OutgoingHttpHeaders = {}
+  ): Promise<http.IncomingMessage> =>
+    new Promise((resolve, reject) =>
+      http
+        .get(
+          `http://localhost:${(server.address() as AddressInfo).port}${path}`,
+          { headers },
+          (res) => res.resume().on('end', () => resolve(res))
+        )
+        .on('error', reject)
+    );
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  it('should set the cache headers and answer matching ETags with 304', async () => {
+    const res = await get('/nft/lol/collection/0');
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['cache-control']).toBe(
+      'public, max-age=31536000, immutable'
+    );
+    expect(res.headers.etag).toBe(getETag({ name: 'name0' }));
+
+    const notModified = await get('/nft/lol/collection/0', {
+      'If-None-Match': res.headers.etag,
+    });
+    expect(notModified.statusCode).toBe(304);
+  });
+
+  it('should not set the headers when disabled', async () => {
+    const disabled = express()
+      .use(
+        createRouter(database, {
+          httpCache: { ...defaultApiConfig.httpCache, enabled: false },
+        })
+      )
+      .listen(0);
+    const res = await new Promise<http.IncomingMessage>((resolve) =>
+      http.get(
+        `http://localhost:${
+          (disabled.address() as AddressInfo).port
+        }/nft/lol/collection`,
+        (res) => res.resume().on('end', () => resolve(res))
+      )
+    );
+    await new Promise((resolve) => disabled.close(resolve));
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['cache-control']).toBeUndefined();
+  });
+});
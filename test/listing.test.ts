@@ -0,0 +1,166 @@
+import express from 'express';
+import {
+  createListHandler,
+  createTokenListHandler,
+  parsePage,
+} from '../src/api/listing';
+import { getSortedTokenIds } from '../src/api/tokenIds';
+import InMemoryMetadataStore from '../src/stores/InMemoryMetadataStore';
+import { TokenDatabase } from '../src/types/TokenDatabase';
+import { IContractService } from '../src/types/IContractService';
+
+const deployments = {
+  lol: { address: '0x5FbDB2315678afecb367f032d93F642f64180aa3' },
+};
+
+const store = new InMemoryMetadataStore({
+  collection: {
+    contract: { deployments },
+    reservedTokens: [2],
+    tokens: {
+      0: { name: 'name0' },
+      1: { name: 'name1' },
+      2: { name: 'name2' },
+      3: { name: 'name3' },
+      10: { name: 'name10' },
+      placeholder: { name: 'placeholder' },
+    },
+  },
+  collectionFutureReveal: {
+    contract: { deployments },
+    revealTime: new Date(3000, 1, 1).getTime(),
+    tokens: {
+      0: { name: 'name0' },
+      placeholder: { name: 'placeholder' },
+    },
+  },
+} as unknown as TokenDatabase);
+
+const list = async (
+  handler: ReturnType<typeof createTokenListHandler>,
+  collectionName: string,
+  query: Record<string, string> = {}
+) => {
+  const res = {
+    json: jest.fn(),
+    set: jest.fn(),
+    status: jest.fn().mockReturnThis(),
+    send: jest.fn(),
+  };
+  await handler(
+    {
+      params: { collectionName, networkName: 'lol' },
+      query,
+    } as unknown as express.Request,
+    res as unknown as express.Response
+  );
+  return res;
+};
+
+describe('parsePage', () => {
+  it('should default the limit, and reject invalid limits', () => {
+    expect(parsePage({})).toEqual({ limit: 100 });
+    expect(parsePage({ cursor: '5', limit: '10' })).toEqual({
+      cursor: '5',
+      limit: 10,
+    });
+    expect(() => parsePage({ limit: '0' })).toThrow(
+      'limit must be an integer between 1 and 1000'
+    );
+    expect(() => parsePage({ limit: 'lol' })).toThrow();
+  });
+});
+
+describe('getSortedTokenIds', () => {
+  it('should sort the token ids numerically, without the placeholders', () => {
+    expect(getSortedTokenIds(store, 'collection')).toEqual([
+      0n,
+      1n,
+      2n,
+      3n,
+      10n,
+    ]);
+  });
+});
+
+describe('createListHandler', () => {
+  it('should list the collections with their deployments by page', async () => {
+    const res = await list(createListHandler(store), 'collection', {
+      limit: '1',
+    });
+    expect(res.json).toHaveBeenCalledWith({
+      items: [{ name: 'collection', deployments }],
+      next: 'collection',
+    });
+
+    const next = await list(createListHandler(store), 'collection', {
+      cursor: 'collection',
+    });
+    expect(next.json).toHaveBeenCalledWith({
+      items: [{ name: 'collectionFutureReveal', deployments }],
+      next: null,
+    });
+  });
+});
+
+describe('createTokenListHandler', () => {
+  it('should list the visible tokens by page, leaving out reserved tokens', async () => {
+    const handler = createTokenListHandler(store);
+
+    const res = await list(handler, 'collection', { limit: '2' });
+    expect(res.json).toHaveBeenCalledWith({
+      items: [
+        { tokenId: '0', metadata: { name: 'name0' } },
+        { tokenId: '1', metadata: { name: 'name1' } },
+      ],
+      next: '1',
+    });
+
+    const next = await list(handler, 'collection', {
+      limit: '2',
+      cursor: '1',
+    });
+    expect(next.json).toHaveBeenCalledWith({
+      items: [
+        { tokenId: '3', metadata: { name: 'name3' } },
+        { tokenId: '10', metadata: { name: 'name10' } },
+      ],
+      next: null,
+    });
+  });
+
+  it('should not list unrevealed tokens', async () => {
+    const res = await list(
+      createTokenListHandler(store),
+      'collectionFutureReveal'
+    );
+    expect(res.json).toHaveBeenCalledWith({ items: [], next: null });
+  });
+
+  it('should not list tokens not minted', async () => {
+    const contractService = {
+      exists: jest.fn(async (c, n, tokenId: bigint) => tokenId < 2n),
+      isRevealed: jest.fn(),
+      getStartingIndex: jest.fn(),
+    } as unknown as IContractService;
+
+    const res = await list(
+      createTokenListHandler(store, undefined, contractService),
+      'collection'
+    );
+    expect(res.json).toHaveBeenCalledWith({
+      items: [
+        { tokenId: '0', metadata: { name: 'name0' } },
+        { tokenId: '1', metadata: { name: 'name1' } },
+      ],
+      next: null,
+    });
+  });
+
+  it('should reject malformed cursors', async () => {
+    const res = await list(createTokenListHandler(store), 'collection', {
+      cursor: 'lol',
+    });
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
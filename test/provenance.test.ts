@@ -0,0 +1,113 @@
+import {
+  canonicalJson,
+  computeProvenanceHash,
+  getArtworkId,
+  verifyProvenanceHash,
+} from '../src/provenance/provenance';
+import InMemoryMetadataStore from '../src/stores/InMemoryMetadataStore';
+import { TokenDatabase } from '../src/types/TokenDatabase';
+
+const database: TokenDatabase = {
+  collection: {
+    contract: { deployments: {} },
+    provenance: { maxSupply: 3 },
+    tokens: {
+      0: { name: 'artwork0', image: 'ipfs://Qm0' },
+      1: { name: 'artwork1', image: 'ipfs://Qm1' },
+      2: { name: 'artwork2', image: 'ipfs://Qm2' },
+    },
+  },
+  collectionNoProvenance: {
+    contract: { deployments: {} },
+    tokens: {},
+  },
+};
+
+const store = new InMemoryMetadataStore(database);
+
+describe('canonicalJson', () => {
+  it('should sort object keys at every level', () => {
+    expect(
+      canonicalJson({ b: 1, a: [{ d: 1, c: 2 }, 'x'], e: undefined })
+    ).toEqual('{"a":[{"c":2,"d":1},"x"],"b":1}');
+  });
+});
+
+describe('computeProvenanceHash', () => {
+  it('should not depend on the key order of the metadata', () => {
+    const reordered = new InMemoryMetadataStore({
+      collection: {
+        ...database.collection,
+        tokens: {
+          ...database.collection.tokens,
+          1: { image: 'ipfs://Qm1', name: 'artwork1' },
+        },
+      },
+    });
+    expect(computeProvenanceHash(reordered, 'collection')).toEqual(
+      computeProvenanceHash(store, 'collection')
+    );
+  });
+
+  it('should change if any artwork changes', () => {
+    const changed = new InMemoryMetadataStore({
+      collection: {
+        ...database.collection,
+        tokens: {
+          ...database.collection.tokens,
+          2: { name: 'artwork2', image: 'ipfs://Qm3' },
+        },
+      },
+    });
+    expect(computeProvenanceHash(changed, 'collection')).not.toEqual(
+      computeProvenanceHash(store, 'collection')
+    );
+  });
+
+  it('should throw if the collection has no provenance config', () => {
+    expect(() =>
+      computeProvenanceHash(store, 'collectionNoProvenance')
+    ).toThrow();
+  });
+});
+
+describe('verifyProvenanceHash', () => {
+  const hash = computeProvenanceHash(store, 'collection');
+
+  it('should accept the matching hash, with or without 0x prefix', () => {
+    for (const committed of [hash, hash.slice(2).toUpperCase()]) {
+      const committedStore = new InMemoryMetadataStore({
+        collection: {
+          ...database.collection,
+          provenance: { maxSupply: 3, hash: committed },
+        },
+      });
+      expect(verifyProvenanceHash(committedStore, 'collection')).toEqual(true);
+    }
+  });
+
+  it('should reject a different or missing hash', () => {
+    const committedStore = new InMemoryMetadataStore({
+      collection: {
+        ...database.collection,
+        provenance: { maxSupply: 3, hash: `0x${'0'.repeat(64)}` },
+      },
+    });
+    expect(verifyProvenanceHash(committedStore, 'collection')).toEqual(false);
+    expect(verifyProvenanceHash(store, 'collection')).toEqual(false);
+  });
+});
+
+describe('getArtworkId', () => {
+  it('should return the tokenId without provenance config', () => {
+    expect(getArtworkId(undefined, 5n, undefined)).toEqual(5n);
+  });
+  it('should return undefined until the starting index is known', () => {
+    expect(getArtworkId({ maxSupply: 3 }, 1n, undefined)).toBeUndefined();
+  });
+  it('should shift the tokenId by the starting index', () => {
+    expect(getArtworkId({ maxSupply: 3 }, 0n, 2)).toEqual(2n);
+    expect(getArtworkId({ maxSupply: 3 }, 1n, 2)).toEqual(0n);
+    expect(getArtworkId({ maxSupply: 3 }, 3n, 2)).toEqual(2n);
+  });
+});
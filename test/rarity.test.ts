@@ -0,0 +1,231 @@
+import express from 'express';
+import { computeRarityStats, getCachedRarityStats } from '../src/api/rarity';
+import {
+  createStatsHandler,
+  createWithoutEthers,
+  getRarityStats,
+} from '../src/api/api';
+import defaultApiConfig from '../src/api/defaultApiConfig';
+import InMemoryMetadataStore from '../src/stores/InMemoryMetadataStore';
+import { TokenDatabase } from '../src/types/TokenDatabase';
+import { IContractService } from '../src/types/IContractService';
+
+const gold = { trait_type: 'Background', value: 'Gold' };
+const blue = { trait_type: 'Background', value: 'Blue' };
+const laser = { trait_type: 'Eyes', value: 'Laser' };
+
+const tokens = {
+  0: { name: 'name0', attributes: [gold, laser] },
+  1: { name: 'name1', attributes: [gold] },
+  2: { name: 'name2', attributes: [blue] },
+  3: {
+    name: 'name3',
+    attributes: [
+      gold,
+      { trait_type: 'Level', value: 5, display_type: 'number' },
+    ],
+  },
+  placeholder: { name: 'placeholder' },
+};
+
+const database = {
+  collection: {
+    contract: { deployments: { lol: { address: '0x0' } } },
+    reservedTokens: [2],
+    tokens,
+  },
+  collectionFutureReveal: {
+    contract: { deployments: { lol: { address: '0x0' } } },
+    revealTime: new Date(3000, 1, 1).getTime(),
+    tokens,
+  },
+} as unknown as TokenDatabase;
+
+describe('computeRarityStats', () => {
+  it('should count the traits, and rank the tokens by rarity', () => {
+    const stats = computeRarityStats([
+      ['0', tokens[0]],
+      ['1', tokens[1]],
+      ['2', tokens[2]],
+      ['3', tokens[3]],
+    ]);
+
+    expect(stats.tokenCount).toEqual(4);
+    expect(stats.traits).toEqual({
+      Background: {
+        Gold: { count: 3, frequency: 0.75 },
+        Blue: { count: 1, frequency: 0.25 },
+      },
+      Eyes: { Laser: { count: 1, frequency: 0.25 } },
+    });
+    expect(stats.tokens).toEqual({
+      0: { score: 4 / 3 + 4, rank: 1 },
+      2: { score: 4, rank: 2 },
+      1: { score: 4 / 3, rank: 3 },
+      3: { score: 4 / 3, rank: 3 },
+    });
+  });
+});
+
+describe('getCachedRarityStats', () => {
+  it('should compute the stats again when the key changes', async () => {
+    const store = new InMemoryMetadataStore(database);
+    const compute = jest.fn(async () => computeRarityStats([]));
+
+    await getCachedRarityStats(store, 'collection', 'lol', 'a', 60, compute);
+    await getCachedRarityStats(store, 'collection', 'lol', 'a', 60, compute);
+    await getCachedRarityStats(store, 'collection', 'lol', 'b', 60, compute);
+
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the stats of each network', async () => {
+    const store = new InMemoryMetadataStore(database);
+    const compute = jest.fn(async () => computeRarityStats([]));
+
+    await getCachedRarityStats(store, 'collection', 'lol', 'a', 60, compute);
+    await getCachedRarityStats(
+      store,
+      'collection',
+      'rinkeby',
+      'a',
+      60,
+      compute
+    );
+    await getCachedRarityStats(store, 'collection', 'lol', 'a', 60, compute);
+
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('should compute the stats again once they are too old, or failed', async () => {
+    const store = new InMemoryMetadataStore(database);
+    const compute = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('error'))
+      .mockResolvedValue(computeRarityStats([]));
+
+    await expect(
+      getCachedRarityStats(store, 'collection', 'lol', 'a', 60, compute)
+    ).rejects.toThrow('error');
+    await getCachedRarityStats(store, 'collection', 'lol', 'a', 0, compute);
+    await getCachedRarityStats(store, 'collection', 'lol', 'a', 0, compute);
+
+    expect(compute).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('getRarityStats', () => {
+  const store = new InMemoryMetadataStore(database);
+
+  it('should only count revealed tokens, that are not reserved', async () => {
+    const stats = await getRarityStats(store, 'collection', 'lol');
+
+    expect(stats.tokenCount).toEqual(3);
+    expect(stats.tokens[2]).toBeUndefined();
+    await expect(
+      getRarityStats(store, 'collectionFutureReveal', 'lol')
+    ).resolves.toEqual({ tokenCount: 0, traits: {}, tokens: {} });
+  });
+
+  it('should only count minted tokens, and compute them once', async () => {
+    const contractService = {
+      exists: jest.fn(async (_c, _n, tokenId: bigint) => tokenId !== 3n),
+      isRevealed: jest.fn().mockResolvedValue(true),
+      getStartingIndex: jest.fn(),
+    } as unknown as IContractService;
+    const mintedStore = new InMemoryMetadataStore(database);
+
+    const stats = await getRarityStats(
+      mintedStore,
+      'collection',
+      'lol',
+      contractService
+    );
+    await getRarityStats(mintedStore, 'collection', 'lol', contractService);
+
+    expect(stats.tokenCount).toEqual(2);
+    expect(stats.tokens[3]).toBeUndefined();
+    expect(stats.traits.Background.Gold.count).toEqual(2);
+    expect(contractService.exists).toHaveBeenCalledTimes(4);
+  });
+
+  it('should look up the visibility of the tokens concurrently', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const contractService = {
+      exists: jest.fn(async () => {
+        active++;
+        maxActive = Math.max(active, maxActive);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active--;
+        return true;
+      }),
+      isRevealed: jest.fn().mockResolvedValue(true),
+      getStartingIndex: jest.fn(),
+    } as unknown as IContractService;
+    const largeStore = new InMemoryMetadataStore({
+      collection: {
+        ...database.collection,
+        reservedTokens: [],
+        tokens: Object.fromEntries(
+          [...Array(150)].map((_, tokenId) => [tokenId, tokens[tokenId % 4]])
+        ),
+      },
+    } as unknown as TokenDatabase);
+
+    const stats = await getRarityStats(
+      largeStore,
+      'collection',
+      'lol',
+      contractService
+    );
+
+    expect(stats.tokenCount).toEqual(150);
+    expect(contractService.exists).toHaveBeenCalledTimes(150);
+    expect(maxActive).toEqual(100);
+  });
+
+  it('should serve the stats', async () => {
+    const res = {
+      json: jest.fn(),
+      set: jest.fn(),
+    } as unknown as express.Response;
+
+    await createStatsHandler(store)(
+      {
+        params: { collectionName: 'collection', networkName: 'lol' },
+      } as unknown as express.Request,
+      res
+    );
+
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ tokenCount: 3 })
+    );
+  });
+
+  it('should inject the rarity of revealed tokens if configured', async () => {
+    const res = {
+      json: jest.fn(),
+      set: jest.fn(),
+    } as unknown as express.Response;
+
+    await createWithoutEthers(store, {
+      ...defaultApiConfig,
+      rarity: { inject: true, key: 'rarity' },
+    })(
+      {
+        params: {
+          collectionName: 'collection',
+          tokenId: '0',
+          networkName: 'lol',
+        },
+      } as unknown as express.Request,
+      res
+    );
+
+    expect(res.json).toHaveBeenCalledWith({
+      ...tokens[0],
+      rarity: { score: 4, rank: 1 },
+    });
+  });
+});
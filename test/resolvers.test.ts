@@ -0,0 +1,118 @@
+import { applyResolvers } from '../src/api/resolvers';
+import { IContractService } from '../src/types/IContractService';
+
+const owner = '0x00000000000000000000000000000000000000aa';
+
+const createContractService = () =>
+  ({
+    getOwner: jest.fn().mockResolvedValue(owner),
+    viewCall: jest.fn().mockResolvedValue(1234),
+  } as unknown as IContractService);
+
+describe('applyResolvers', () => {
+  it('should return the metadata without resolvers', async () => {
+    const contractService = createContractService();
+    const metadata = { name: 'name0' };
+
+    await expect(
+      applyResolvers(
+        undefined,
+        contractService,
+        'collection',
+        'lol',
+        0n,
+        metadata
+      )
+    ).resolves.toBe(metadata);
+    expect(contractService.getOwner).not.toHaveBeenCalled();
+  });
+
+  it('should pass the owner and the view call results to the resolvers', async () => {
+    const contractService = createContractService();
+    const resolve = jest.fn().mockReturnValue({ holder: owner });
+
+    await expect(
+      applyResolvers(
+        [
+          {
+            calls: {
+              stakedAt: {
+                signature: 'function stakedAt(uint256) view returns (uint256)',
+              },
+              balance: {
+                signature: 'function balanceOf(address) view returns (uint256)',
+                args: ['{{owner}}'],
+              },
+            },
+            resolve,
+          },
+        ],
+        contractService,
+        'collection',
+        'lol',
+        5n,
+        { name: 'name5' }
+      )
+    ).resolves.toEqual({ name: 'name5', holder: owner });
+    expect(contractService.getOwner).toHaveBeenCalledWith(
+      'collection',
+      'lol',
+      5n
+    );
+    expect(contractService.viewCall).toHaveBeenCalledWith(
+      'collection',
+      'lol',
+      'function stakedAt(uint256) view returns (uint256)',
+      [5n]
+    );
+    expect(contractService.viewCall).toHaveBeenCalledWith(
+      'collection',
+      'lol',
+      'function balanceOf(address) view returns (uint256)',
+      [owner]
+    );
+    expect(resolve).toHaveBeenCalledWith({
+      collectionName: 'collection',
+      networkName: 'lol',
+      tokenId: 5n,
+      owner,
+      calls: { stakedAt: 1234, balance: 1234 },
+      metadata: { name: 'name5' },
+    });
+  });
+
+  it('should merge the outputs in order, appending to arrays', async () => {
+    await expect(
+      applyResolvers(
+        [
+          {
+            resolve: async () => ({
+              attributes: [{ trait_type: 'Staked', value: 'Yes' }],
+              description: 'staked',
+            }),
+          },
+          {
+            resolve: ({ metadata }) => ({
+              description: `${metadata.description}, held`,
+            }),
+          },
+        ],
+        createContractService(),
+        'collection',
+        'lol',
+        0n,
+        {
+          name: 'name0',
+          attributes: [{ trait_type: 'Eyes', value: 'Blue' }],
+        }
+      )
+    ).resolves.toEqual({
+      name: 'name0',
+      description: 'staked, held',
+      attributes: [
+        { trait_type: 'Eyes', value: 'Blue' },
+        { trait_type: 'Staked', value: 'Yes' },
+      ],
+    });
+  });
+});
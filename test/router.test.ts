@@ -0,0 +1,158 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { createHealthHandler, createRouter } from '../src/api/router';
+import { IMetadataStore } from '../src/types/IMetadataStore';
+import { TokenDatabase } from '../src/types/TokenDatabase';
+import defaultApiConfig from '../src/api/defaultApiConfig';
+
+const database = {
+  collection: {
+    contract: {
+      deployments: {
+        lol: { address: '0x5FbDB2315678afecb367f032d93F642f64180aa3' },
+      },
+    },
+    collection: { name: 'Collection' },
+    tokens: {
+      0: { name: 'name0' },
+    },
+  },
+} as unknown as TokenDatabase;
+
+const listen = (router: express.Router) => {
+  const server = express().use(router).listen(0);
+  const get = (path: string): Promise<{ status?: number; body: unknown }> =>
+    new Promise((resolve, reject) =>
+      http
+        .get(
+          `http://localhost:${(server.address() as AddressInfo).port}${path}`,
+          (res) => {
+            let data = '';
+            res.on('data', (chunk) => (data += chunk));
+            res.on('end', () =>
+              resolve({ status: res.statusCode, body: JSON.parse(data) })
+            );
+          }
+        )
+        .on('error', reject)
+    );
+  return { server, get };
+};
+
+describe('createRouter', () => {
+  const { server, get } = listen(
+    createRouter(database, {
+      router: {
+        ...defaultApiConfig.router,
+        prefix: '/v1',
+        collectionRoutes: {
+          collection: { token: '/collection/:tokenId', network: 'lol' },
+        },
+      },
+    })
+  );
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  it('should serve the token and collection routes under the prefix', async () => {
+    await expect(get('/v1/nft/lol/collection/0')).resolves.toEqual({
+      status: 200,
+      body: { name: 'name0' },
+    });
+    await expect(get('/v1/nft/lol/collection')).resolves.toEqual({
+      status: 200,
+      body: { name: 'Collection' },
+    });
+  });
+
+  it('should serve the custom routes of the collections', async () => {
+    await expect(get('/v1/collection/0')).resolves.toEqual({
+      status: 200,
+      body: { name: 'name0' },
+    });
+  });
+
+  it('should serve the health and list routes', async () => {
+    await expect(get('/v1/health')).resolves.toEqual({
+      status: 200,
+      body: { status: 'ok', collections: 1, degraded: [] },
+    });
+    await expect(get('/v1/nft')).resolves.toEqual({
+      status: 200,
+      body: {
+        items: [
+          {
+            name: 'collection',
+            deployments: database.collection.contract.deployments,
+          },
+        ],
+        next: null,
+      },
+    });
+  });
+
+  it('should serve the token list before the token route', async () => {
+    await expect(get('/v1/nft/lol/collection/tokens')).resolves.toEqual({
+      status: 200,
+      body: {
+        items: [{ tokenId: '0', metadata: { name: 'name0' } }],
+        next: null,
+      },
+    });
+  });
+
+  it('should serve the stats before the token route', async () => {
+    await expect(get('/v1/nft/lol/collection/stats')).resolves.toEqual({
+      status: 200,
+      body: { tokenCount: 1, traits: {}, tokens: { 0: { score: 0, rank: 1 } } },
+    });
+  });
+
+  it('should serve the search before the token route', async () => {
+    await expect(
+      get('/v1/nft/lol/collection/search?name=name')
+    ).resolves.toEqual({
+      status: 200,
+      body: {
+        items: [{ tokenId: '0', metadata: { name: 'name0' } }],
+        next: null,
+      },
+    });
+  });
+
+  it('should answer unknown routes with 404', async () => {
+    await expect(get('/nft/lol/collection/0')).resolves.toEqual({
+      status: 404,
+      body: {
+        error: {
+          status: 404,
+          message: 'No route for GET /nft/lol/collection/0',
+        },
+      },
+    });
+  });
+});
+
+describe('createHealthHandler', () => {
+  it('should answer store errors with 500', async () => {
+    const store = {
+      getCollectionNames: () => {
+        throw new Error('database is locked');
+      },
+    } as unknown as IMetadataStore;
+    const res = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      send: jest.fn(),
+    };
+
+    await createHealthHandler(store)(
+      {} as express.Request,
+      res as unknown as express.Response
+    );
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).not.toHaveBeenCalled();
+  });
+});
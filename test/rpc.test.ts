@@ -0,0 +1,270 @@
+import { ethers } from 'ethers';
+import Semaphore from '../src/rpc/Semaphore';
+import CallBatcher from '../src/rpc/CallBatcher';
+import { createProvider } from '../src/rpc/createProvider';
+import { classifyError, withRetry } from '../src/rpc/classifyError';
+import { InvalidProviderConfigError } from '../src/errors';
+
+const erc721 = new ethers.utils.Interface([
+  'function ownerOf(uint256) view returns (address)',
+]);
+const owner = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const mockContract = (address: string) =>
+  ({
+    address,
+    interface: erc721,
+    ownerOf: jest.fn().mockResolvedValue(owner),
+  } as unknown as ethers.Contract);
+
+describe('Semaphore', () => {
+  it('should limit the number of concurrent tasks', async () => {
+    const semaphore = new Semaphore(2);
+    let active = 0;
+    let maxActive = 0;
+    const task = async () => {
+      active++;
+      maxActive = Math.max(active, maxActive);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+    };
+
+    await Promise.all([...Array(6)].map(() => semaphore.run(task)));
+
+    expect(maxActive).toEqual(2);
+    expect(active).toEqual(0);
+  });
+
+  it('should release the slot of failed tasks', async () => {
+    const semaphore = new Semaphore(1);
+
+    await expect(
+      semaphore.run(() => Promise.reject(new Error('error')))
+    ).rejects.toThrow('error');
+    await expect(semaphore.run(async () => 1)).resolves.toEqual(1);
+  });
+});
+
+describe('CallBatcher', () => {
+  const provider = {} as ethers.providers.Provider;
+  const options = {
+    batchWindowMs: 5,
+    maxBatchSize: 10,
+    multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
+  };
+  const aggregate3 = jest.fn();
+  const createBatcher = (batcherOptions = options) => {
+    const batcher = new CallBatcher(provider, new Semaphore(0), batcherOptions);
+    batcher['_multicall'] = {
+      callStatic: { aggregate3 },
+    } as unknown as ethers.Contract;
+    return batcher;
+  };
+
+  afterEach(() => jest.clearAllMocks());
+
+  it('should call the contract directly without a window', async () => {
+    const contract = mockContract('0x1');
+    const batcher = createBatcher({ ...options, batchWindowMs: 0 });
+
+    await expect(batcher.call(contract, 'ownerOf', [1n])).resolves.toEqual(
+      owner
+    );
+    expect(contract.ownerOf).toHaveBeenCalledWith(1n);
+    expect(aggregate3).not.toHaveBeenCalled();
+  });
+
+  it('should aggregate the calls made within the window', async () => {
+    const contracts = [mockContract('0x1'), mockContract('0x2')];
+    aggregate3.mockResolvedValueOnce([
+      {
+        success: true,
+        returnData: erc721.encodeFunctionResult('ownerOf', [owner]),
+      },
+      { success: false, returnData: '0x' },
+    ]);
+    const batcher = createBatcher();
+
+    const results = await Promise.allSettled([
+      batcher.call(contracts[0], 'ownerOf', [1n]),
+      batcher.call(contracts[1], 'ownerOf', [2n]),
+    ]);
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: owner });
+    expect(results[1].status).toEqual('rejected');
+    expect(aggregate3).toHaveBeenCalledTimes(1);
+    expect(aggregate3).toHaveBeenCalledWith([
+      {
+        target: '0x1',
+        allowFailure: true,
+        callData: erc721.encodeFunctionData('ownerOf', [1n]),
+      },
+      {
+        target: '0x2',
+        allowFailure: true,
+        callData: erc721.encodeFunctionData('ownerOf', [2n]),
+      },
+    ]);
+    contracts.forEach((contract) =>
+      expect(contract.ownerOf).not.toHaveBeenCalled()
+    );
+  });
+
+  it('should flush full batches right away', async () => {
+    const batcher = createBatcher({ ...options, maxBatchSize: 2 });
+    aggregate3.mockImplementation(async (calls) =>
+      calls.map(() => ({
+        success: true,
+        returnData: erc721.encodeFunctionResult('ownerOf', [owner]),
+      }))
+    );
+    const contract = mockContract('0x1');
+
+    await Promise.all(
+      [1n, 2n, 3n].map((tokenId) =>
+        batcher.call(contract, 'ownerOf', [tokenId])
+      )
+    );
+
+    expect(aggregate3).toHaveBeenCalledTimes(1);
+    // the last call was alone in its window
+    expect(contract.ownerOf).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to single calls if the aggregate call fails', async () => {
+    const contract = mockContract('0x1');
+    aggregate3.mockRejectedValueOnce(new Error('no multicall'));
+    const batcher = createBatcher();
+
+    await Promise.all([
+      batcher.call(contract, 'ownerOf', [1n]),
+      batcher.call(contract, 'ownerOf', [2n]),
+    ]);
+
+    expect(contract.ownerOf).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createProvider', () => {
+  it('should use the provider instance', () => {
+    const provider = new ethers.providers.StaticJsonRpcProvider(
+      'http://localhost:8545',
+      31337
+    );
+
+    expect(createProvider('anvil', { provider }, undefined)).toBe(provider);
+  });
+
+  it('should connect to a single url', () => {
+    const provider = createProvider(
+      'anvil',
+      { urls: ['http://localhost:8545'], chainId: 31337 },
+      undefined
+    ) as ethers.providers.StaticJsonRpcProvider;
+
+    expect(provider).toBeInstanceOf(ethers.providers.StaticJsonRpcProvider);
+    expect(provider.connection.url).toEqual('http://localhost:8545');
+    expect(provider.network).toEqual({ name: 'anvil', chainId: 31337 });
+  });
+
+  it('should fall back between several urls', () => {
+    const provider = createProvider(
+      'private',
+      {
+        urls: [
+          { url: 'http://node0:8545', priority: 1 },
+          { url: 'http://node1:8545', priority: 2, weight: 2 },
+        ],
+        chainId: 1337,
+        quorum: 2,
+      },
+      undefined
+    ) as ethers.providers.FallbackProvider;
+
+    expect(provider).toBeInstanceOf(ethers.providers.FallbackProvider);
+    expect(provider.quorum).toEqual(2);
+    expect(
+      provider.providerConfigs.map(({ priority, weight }) => ({
+        priority,
+        weight,
+      }))
+    ).toEqual([
+      { priority: 1, weight: 1 },
+      { priority: 2, weight: 2 },
+    ]);
+  });
+
+  it('should throw without urls', () => {
+    expect(() => createProvider('private', { urls: [] }, undefined)).toThrow(
+      InvalidProviderConfigError
+    );
+  });
+});
+
+describe('classifyError', () => {
+  it('should classify reverts, provider failures and other errors', () => {
+    expect(
+      classifyError({ code: ethers.errors.CALL_EXCEPTION, message: 'revert' })
+    ).toEqual('notMinted');
+    expect(classifyError({ code: ethers.errors.TIMEOUT })).toEqual('transient');
+    expect(classifyError({ code: ethers.errors.SERVER_ERROR })).toEqual(
+      'transient'
+    );
+    expect(classifyError({ status: 429 })).toEqual('transient');
+    expect(
+      classifyError(new Error('daily request count exceeded, rate limit'))
+    ).toEqual('transient');
+    expect(classifyError(new Error('invalid response'))).toEqual('fatal');
+    expect(classifyError(undefined)).toEqual('fatal');
+  });
+
+  it('should classify reverts without revert data as not minted', () => {
+    const rpcError = { code: 3, message: 'execution reverted' };
+    expect(
+      classifyError({
+        code: ethers.errors.SERVER_ERROR,
+        error: rpcError,
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, error: rpcError }),
+      })
+    ).toEqual('notMinted');
+    expect(
+      classifyError({
+        code: ethers.errors.SERVER_ERROR,
+        body: '{"jsonrpc":"2.0","id":1,"error":{"message":"execution reverted"}}',
+      })
+    ).toEqual('notMinted');
+    expect(
+      classifyError({
+        code: ethers.errors.SERVER_ERROR,
+        error: { code: -32000, message: 'header not found' },
+      })
+    ).toEqual('transient');
+  });
+});
+
+describe('withRetry', () => {
+  const transient = { code: ethers.errors.TIMEOUT };
+
+  it('should retry transient errors only', async () => {
+    const task = jest
+      .fn()
+      .mockRejectedValueOnce(transient)
+      .mockRejectedValueOnce(transient)
+      .mockResolvedValueOnce('value');
+
+    await expect(withRetry(task, 2, 1)).resolves.toEqual('value');
+    expect(task).toHaveBeenCalledTimes(3);
+
+    const failing = jest.fn().mockRejectedValue(new Error('fatal'));
+
+    await expect(withRetry(failing, 2, 1)).rejects.toThrow('fatal');
+    expect(failing).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after the retries', async () => {
+    const task = jest.fn().mockRejectedValue(transient);
+
+    await expect(withRetry(task, 1, 1)).rejects.toBe(transient);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,131 @@
+import express from 'express';
+import SearchIndex from '../src/api/SearchIndex';
+import { createSearchHandler, parseFilter } from '../src/api/listing';
+import InMemoryMetadataStore from '../src/stores/InMemoryMetadataStore';
+import { TokenDatabase } from '../src/types/TokenDatabase';
+import { IMetadataStore } from '../src/types/IMetadataStore';
+
+const attributes = (background: string, eyes: string, level: number) => [
+  { trait_type: 'Background', value: background },
+  { trait_type: 'Eyes', value: eyes },
+  { trait_type: 'Level', value: level, display_type: 'number' },
+];
+
+const database = {
+  collection: {
+    contract: { deployments: { lol: { address: '0x0' } } },
+    reservedTokens: [3],
+    defaults: { attributes: [{ trait_type: 'Series', value: 'Genesis' }] },
+    tokens: {
+      0: { name: 'Golden Laser', attributes: attributes('Gold', 'Laser', 1) },
+      1: { name: 'Blue Laser', attributes: attributes('Blue', 'Laser', 5) },
+      2: { name: 'Golden Sleepy', attributes: attributes('Gold', 'Sleepy', 9) },
+      3: {
+        name: 'Golden Reserved',
+        attributes: attributes('Gold', 'Laser', 2),
+      },
+      4: { name: 'Plain' },
+    },
+  },
+} as unknown as TokenDatabase;
+
+const store = new InMemoryMetadataStore(database);
+const filter = (query: Record<string, unknown>) =>
+  parseFilter(query as express.Request['query']);
+
+describe('SearchIndex', () => {
+  const index = new SearchIndex(store);
+  const search = (query: Record<string, unknown>) =>
+    [...index.search('collection', filter(query))].sort();
+
+  it('should match every trait type, and any value of a trait type', () => {
+    expect(search({ trait: ['Background:Gold', 'Eyes:Laser'] })).toEqual([
+      '0',
+      '3',
+    ]);
+    expect(search({ trait: ['Background:Gold', 'Background:Blue'] })).toEqual([
+      '0',
+      '1',
+      '2',
+      '3',
+    ]);
+  });
+
+  it('should match numeric ranges, and names', () => {
+    expect(search({ range: 'Level:2:' })).toEqual(['1', '2', '3']);
+    expect(search({ range: 'Level::5', name: 'golden' })).toEqual(['0', '3']);
+  });
+
+  it('should index the tokens with the defaults applied', () => {
+    expect(search({ trait: 'Series:Genesis' })).toEqual(['4']);
+  });
+
+  it('should build the index again when the store changes', () => {
+    let listener = () => undefined as void;
+    let current = store;
+    const changingStore: IMetadataStore = {
+      getCollectionNames: () => current.getCollectionNames(),
+      getCollection: (collectionName) => current.getCollection(collectionName),
+      getToken: (collectionName, tokenId) =>
+        current.getToken(collectionName, tokenId),
+      getTokenIds: (collectionName) => current.getTokenIds(collectionName),
+      subscribe: (l) => {
+        listener = l;
+        return () => undefined;
+      },
+    };
+    const changingIndex = new SearchIndex(changingStore);
+
+    current = new InMemoryMetadataStore({
+      collection: { ...database.collection, tokens: { 5: { name: 'New' } } },
+    });
+    listener();
+
+    expect([
+      ...changingIndex.search('collection', filter({ name: 'new' })),
+    ]).toEqual(['5']);
+  });
+});
+
+describe('parseFilter', () => {
+  it('should reject malformed filters', () => {
+    expect(() => filter({ trait: 'Background' })).toThrow(
+      'trait must be formatted as type:value'
+    );
+    expect(() => filter({ range: 'Level:a:5' })).toThrow(
+      'range must be formatted as type:min:max'
+    );
+    expect(() => filter({ range: 'Level:5' })).toThrow();
+  });
+});
+
+describe('createSearchHandler', () => {
+  it('should serve the visible matching tokens by page', async () => {
+    const res = {
+      json: jest.fn(),
+      set: jest.fn(),
+    } as unknown as express.Response;
+
+    await createSearchHandler(store, new SearchIndex(store))(
+      {
+        params: { collectionName: 'collection', networkName: 'lol' },
+        query: { trait: 'Eyes:Laser' },
+      } as unknown as express.Request,
+      res
+    );
+
+    expect(res.json).toHaveBeenCalledWith({
+      items: [
+        {
+          tokenId: '0',
+          metadata: expect.objectContaining({ name: 'Golden Laser' }),
+        },
+        {
+          tokenId: '1',
+          metadata: expect.objectContaining({ name: 'Blue Laser' }),
+        },
+      ],
+      next: null,
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import InMemoryMetadataStore from '../src/stores/InMemoryMetadataStore';
+import JsonDirectoryMetadataStore from '../src/stores/JsonDirectoryMetadataStore';
+import SqliteMetadataStore from '../src/stores/SqliteMetadataStore';
+import FileWatchingMetadataStore from '../src/stores/FileWatchingMetadataStore';
+import { isMetadataStore, toMetadataStore } from '../src/stores';
+import { TokenDatabase } from '../src/types/TokenDatabase';
+
+const database: TokenDatabase = {
+  collection: {
+    contract: {
+      deployments: {
+        lol: {
+          address: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+        },
+      },
+    },
+    revealTime: 1000,
+    tokens: {
+      0: {
+        name: 'name0',
+      },
+      1: {
+        name: 'name1',
+      },
+      placeholder: {
+        name: 'placeholder',
+      },
+    },
+  },
+};
+
+describe('InMemoryMetadataStore', () => {
+  const store = new InMemoryMetadataStore(database);
+
+  it('should list the collections', () => {
+    expect(store.getCollectionNames()).toEqual(['collection']);
+  });
+  it('should return the collection config', () => {
+    expect(store.getCollection('collection')?.revealTime).toEqual(1000);
+    expect(store.getCollection('collectionLol')).toBeUndefined();
+  });
+  it('should return tokens by id', () => {
+    expect(store.getToken('collection', 1)).toEqual({ name: 'name1' });
+    expect(store.getToken('collection', 'placeholder')).toEqual({
+      name: 'placeholder',
+    });
+    expect(store.getToken('collection', 5)).toBeUndefined();
+    expect(store.getToken('collectionLol', 0)).toBeUndefined();
+  });
+  it('should list the token ids', () => {
+    expect(store.getTokenIds('collection')).toEqual(['0', '1', 'placeholder']);
+    expect(store.getTokenIds('collectionLol')).toEqual([]);
+  });
+  it('should not return Object.prototype members', () => {
+    for (const name of ['constructor', 'toString', '__proto__']) {
+      expect(store.getCollection(name)).toBeUndefined();
+      expect(store.getToken(name, 0)).toBeUndefined();
+      expect(store.getToken('collection', name)).toBeUndefined();
+      expect(store.getTokenIds(name)).toEqual([]);
+    }
+  });
+});
+
+describe('JsonDirectoryMetadataStore', () => {
+  let directory: string;
+  let store: JsonDirectoryMetadataStore;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'metadata-'));
+    for (const [tokenId, metadata] of Object.entries(
+      database.collection.tokens
+    )) {
+      fs.writeFileSync(
+        path.join(directory, `${tokenId}.json`),
+        JSON.stringify(metadata)
+      );
+    }
+    fs.writeFileSync(path.join(directory, 'README.md'), 'not metadata');
+    const { contract, revealTime } = database.collection;
+    store = new JsonDirectoryMetadataStore({
+      collection: { contract, revealTime, directory },
+    });
+  });
+
+  afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it('should return the collection config without the directory', () => {
+    expect(store.getCollectionNames()).toEqual(['collection']);
+    expect(store.getCollection('collection')).toEqual({
+      contract: database.collection.contract,
+      revealTime: 1000,
+    });
+    expect(store.getCollection('collectionLol')).toBeUndefined();
+  });
+  it('should read tokens from their files', () => {
+    expect(store.getToken('collection', 0)).toEqual({ name: 'name0' });
+    expect(store.getToken('collection', 'placeholder')).toEqual({
+      name: 'placeholder',
+    });
+  });
+  it('should return undefined for missing files', () => {
+    expect(store.getToken('collection', 5)).toBeUndefined();
+    expect(store.getToken('collectionLol', 0)).toBeUndefined();
+  });
+  it('should not return Object.prototype members', () => {
+    for (const name of ['constructor', 'toString', '__proto__']) {
+      expect(store.getCollection(name)).toBeUndefined();
+      expect(store.getToken(name, 0)).toBeUndefined();
+      expect(store.getTokenIds(name)).toEqual([]);
+    }
+  });
+  it('should not read files outside of the directory', () => {
+    expect(store.getToken('collection', '../collection/0')).toBeUndefined();
+  });
+  it('should list the token ids from the metadata files only', () => {
+    expect(store.getTokenIds('collection').sort()).toEqual([
+      '0',
+      '1',
+      'placeholder',
+    ]);
+  });
+});
+
+describe('SqliteMetadataStore', () => {
+  const db = new Database(':memory:');
+  const store = new SqliteMetadataStore(db);
+  store.import(database);
+
+  afterAll(() => db.close());
+
+  it('should return the collection config without the tokens', () => {
+    expect(store.getCollectionNames()).toEqual(['collection']);
+    expect(store.getCollection('collection')).toEqual({
+      contract: database.collection.contract,
+      revealTime: 1000,
+    });
+    expect(store.getCollection('collectionLol')).toBeUndefined();
+  });
+  it('should return tokens by id', () => {
+    expect(store.getToken('collection', 0)).toEqual({ name: 'name0' });
+    expect(store.getToken('collection', '1')).toEqual({ name: 'name1' });
+    expect(store.getToken('collection', 5)).toBeUndefined();
+  });
+  it('should list the token ids', () => {
+    expect(store.getTokenIds('collection').sort()).toEqual([
+      '0',
+      '1',
+      'placeholder',
+    ]);
+  });
+});
+
+describe('toMetadataStore', () => {
+  it('should wrap token databases into an in-memory store', () => {
+    const store = toMetadataStore(database);
+    expect(store).toBeInstanceOf(InMemoryMetadataStore);
+    expect(isMetadataStore(database)).toEqual(false);
+  });
+  it('should pass stores through', () => {
+    const store = new InMemoryMetadataStore(database);
+    expect(toMetadataStore(store)).toBe(store);
+  });
+});
+
+describe('FileWatchingMetadataStore', () => {
+  let directory: string;
+  let filePath: string;
+  let store: FileWatchingMetadataStore;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'metadata-'));
+    filePath = path.join(directory, 'database.json');
+    fs.writeFileSync(filePath, JSON.stringify(database));
+    store = new FileWatchingMetadataStore(filePath);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should throw if the initial file is not valid', () => {
+    fs.writeFileSync(filePath, '{"collection": {}}');
+    expect(() => new FileWatchingMetadataStore(filePath)).toThrow();
+  });
+
+  it('should swap in the new content on reload, and notify the listeners', () => {
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({
+        ...database,
+        collection: { ...database.collection, revealTime: 2000 },
+      })
+    );
+
+    expect(store.reload()).toEqual(true);
+    expect(store.getCollection('collection')?.revealTime).toEqual(2000);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep serving the previous version if the new content is not valid', () => {
+    const listener = jest.fn();
+    store.subscribe(listener);
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+
+    fs.writeFileSync(filePath, '{"collection": {"tokens": ');
+    expect(store.reload()).toEqual(false);
+
+    fs.writeFileSync(filePath, '{"collection": {"tokens": {}}}');
+    expect(store.reload()).toEqual(false);
+
+    expect(store.getToken('collection', 0)).toEqual({ name: 'name0' });
+    expect(listener).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('should validate reloads in the validation mode', () => {
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    const consoleWarn = jest
+      .spyOn(console, 'warn')
+      .mockImplementation(() => undefined);
+    const token = { name: 'name', description: 'description', image: 'image' };
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({
+        collection: {
+          ...database.collection,
+          tokens: { 0: token, placeholder: token },
+        },
+      })
+    );
+    const strictStore = new FileWatchingMetadataStore(filePath, {
+      validation: 'strict',
+    });
+    const uncheckedStore = new FileWatchingMetadataStore(filePath, {
+      validation: 'off',
+    });
+
+    // warnings only, lenient validation would swap it in
+    fs.writeFileSync(filePath, JSON.stringify(database));
+
+    expect(strictStore.reload()).toEqual(false);
+    expect(uncheckedStore.reload()).toEqual(true);
+    expect(consoleWarn).not.toHaveBeenCalled();
+    strictStore.close();
+    uncheckedStore.close();
+    consoleError.mockRestore();
+    consoleWarn.mockRestore();
+  });
+
+  it('should use the custom validator', () => {
+    const validate = jest.fn().mockImplementation((database) => {
+      if (!database.collection.revealTime) {
+        throw new Error('no reveal time');
+      }
+    });
+    const validatedStore = new FileWatchingMetadataStore(filePath, {
+      validate,
+    });
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({
+        collection: { ...database.collection, revealTime: undefined },
+      })
+    );
+
+    expect(validatedStore.reload()).toEqual(false);
+    expect(validate).toHaveBeenCalledTimes(2);
+    validatedStore.close();
+    consoleError.mockRestore();
+  });
+
+  it('should stop notifying unsubscribed listeners', () => {
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+    unsubscribe();
+
+    expect(store.reload()).toEqual(true);
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,45 @@
+import { renderTemplate, substituteErc1155Id } from '../src/api/template';
+
+describe('renderTemplate', () => {
+  it('should replace variables in nested strings', () => {
+    expect(
+      renderTemplate(
+        {
+          name: 'Mystery Box #{{tokenId}}',
+          attributes: [{ trait_type: 'Box', value: '{{ tokenId }}' }],
+          level: 1,
+          hidden: null,
+        },
+        { tokenId: 42 }
+      )
+    ).toEqual({
+      name: 'Mystery Box #42',
+      attributes: [{ trait_type: 'Box', value: '42' }],
+      level: 1,
+      hidden: null,
+    });
+  });
+
+  it('should leave unknown variables untouched', () => {
+    expect(
+      renderTemplate('{{tokenId}} of {{unknown}}', { tokenId: 1 })
+    ).toEqual('1 of {{unknown}}');
+  });
+
+  it('should not modify the original value', () => {
+    const metadata = { name: '#{{tokenId}}' };
+    renderTemplate(metadata, { tokenId: 1 });
+    expect(metadata.name).toEqual('#{{tokenId}}');
+  });
+});
+
+describe('substituteErc1155Id', () => {
+  it('should replace every {id} reference', () => {
+    expect(
+      substituteErc1155Id(
+        { image: 'ipfs://Qm/{id}.png', files: ['{id}/{id}.glb', '{{id}}'] },
+        '1a'
+      )
+    ).toEqual({ image: 'ipfs://Qm/1a.png', files: ['1a/1a.glb', '{1a}'] });
+  });
+});
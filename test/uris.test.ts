@@ -0,0 +1,118 @@
+import { resolveUriRewrite, rewriteUris, toGatewayUri } from '../src/api/uris';
+import defaultApiConfig from '../src/api/defaultApiConfig';
+import { HttpError } from '../src/errors';
+import { UriRewriteConfig } from '../src/types/UriRewriteConfig';
+
+const config: UriRewriteConfig = {
+  ...defaultApiConfig.uriRewrite,
+  mode: 'gateway',
+  gateways: {
+    cloudflare: { ipfsGateway: 'https://cloudflare-ipfs.com/ipfs/' },
+  },
+};
+
+const metadata = {
+  name: 'name0',
+  image: 'ipfs://QmImage',
+  animation_url: 'ar://TxId',
+  external_url: 'https://example.com',
+  attributes: [{ trait_type: 'Scan', value: 'ipfs://ipfs/QmScan' }],
+  files: ['ipfs://QmFile'],
+};
+
+describe('toGatewayUri', () => {
+  it('should rewrite ipfs and arweave URIs', () => {
+    expect(toGatewayUri('ipfs://QmImage/1.png', config)).toEqual(
+      'https://ipfs.io/ipfs/QmImage/1.png'
+    );
+    expect(toGatewayUri('ipfs://ipfs/QmImage', config)).toEqual(
+      'https://ipfs.io/ipfs/QmImage'
+    );
+    expect(toGatewayUri('ar://TxId', config)).toEqual(
+      'https://arweave.net/TxId'
+    );
+  });
+  it('should ignore other values', () => {
+    expect(toGatewayUri('https://example.com', config)).toBeUndefined();
+  });
+});
+
+describe('rewriteUris', () => {
+  it('should rewrite every field, including nested ones', () => {
+    expect(rewriteUris(metadata, config)).toEqual({
+      name: 'name0',
+      image: 'https://ipfs.io/ipfs/QmImage',
+      animation_url: 'https://arweave.net/TxId',
+      external_url: 'https://example.com',
+      attributes: [
+        { trait_type: 'Scan', value: 'https://ipfs.io/ipfs/QmScan' },
+      ],
+      files: ['https://ipfs.io/ipfs/QmFile'],
+    });
+  });
+
+  it('should keep the raw URIs in both mode', () => {
+    expect(rewriteUris(metadata, { ...config, mode: 'both' })).toEqual({
+      name: 'name0',
+      image: 'https://ipfs.io/ipfs/QmImage',
+      image_raw: 'ipfs://QmImage',
+      animation_url: 'https://arweave.net/TxId',
+      animation_url_raw: 'ar://TxId',
+      external_url: 'https://example.com',
+      attributes: [
+        {
+          trait_type: 'Scan',
+          value: 'https://ipfs.io/ipfs/QmScan',
+          value_raw: 'ipfs://ipfs/QmScan',
+        },
+      ],
+      files: ['https://ipfs.io/ipfs/QmFile'],
+    });
+  });
+
+  it('should not touch the metadata in raw mode', () => {
+    expect(rewriteUris(metadata, { ...config, mode: 'raw' })).toBe(metadata);
+  });
+});
+
+describe('resolveUriRewrite', () => {
+  it('should apply the overrides of the collection', () => {
+    expect(
+      resolveUriRewrite(config, {
+        contract: { deployments: {} },
+        uriRewrite: { mode: 'both', ipfsGateway: 'https://gateway/ipfs/' },
+      })
+    ).toEqual({
+      ...config,
+      mode: 'both',
+      ipfsGateway: 'https://gateway/ipfs/',
+    });
+  });
+
+  it('should apply the named gateway and mode of the request', () => {
+    expect(
+      resolveUriRewrite({ ...config, mode: 'raw' }, undefined, {
+        gateway: 'cloudflare',
+      })
+    ).toEqual({
+      ...config,
+      mode: 'gateway',
+      ipfsGateway: 'https://cloudflare-ipfs.com/ipfs/',
+    });
+    expect(resolveUriRewrite(config, undefined, { uris: 'raw' }).mode).toEqual(
+      'raw'
+    );
+  });
+
+  it('should throw 400 for unknown gateways and modes', () => {
+    expect(() =>
+      resolveUriRewrite(config, undefined, { gateway: 'lol' })
+    ).toThrow(HttpError);
+    expect(() =>
+      resolveUriRewrite(config, undefined, { gateway: 'constructor' })
+    ).toThrow(HttpError);
+    expect(() => resolveUriRewrite(config, undefined, { uris: 'lol' })).toThrow(
+      HttpError
+    );
+  });
+});
@@ -0,0 +1,705 @@
+import {
+  ensureValidDatabase,
+  validateDatabase,
+} from '../src/validation/validateDatabase';
+import InMemoryMetadataStore from '../src/stores/InMemoryMetadataStore';
+import { TokenDatabase } from '../src/types/TokenDatabase';
+import { DatabaseValidationError } from '../src/errors';
+
+const address = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const validDatabase: TokenDatabase = {
+  collection: {
+    contract: {
+      deployments: {
+        mainnet: { address },
+      },
+    },
+    revealTime: 1000,
+    reservedTokens: [1],
+    tokens: {
+      0: {
+        name: 'name0',
+        description: 'description',
+        image: 'ipfs://Qm0',
+        attributes: [
+          { trait_type: 'Background', value: 'Gold' },
+          { trait_type: 'Level', value: 2, display_type: 'number' },
+        ],
+      },
+      1: {
+        name: 'name1',
+        description: 'description',
+        image: 'ipfs://Qm1',
+      },
+      placeholder: {
+        name: 'placeholder',
+        description: 'description',
+        image: 'ipfs://Qm',
+      },
+    },
+  },
+};
+
+const validate = (database: unknown) =>
+  validateDatabase(new InMemoryMetadataStore(database as TokenDatabase));
+
+describe('validateDatabase', () => {
+  it('should return no issues for a valid database', () => {
+    expect(validate(validDatabase)).toEqual([]);
+  });
+
+  it('should report unknown collection properties as warnings', () => {
+    const { revealTime, ...collection } = validDatabase.collection;
+    expect(
+      validate({ collection: { ...collection, revelTime: revealTime } })
+    ).toEqual([
+      {
+        path: 'collection.revelTime',
+        message: 'Unknown collection property revelTime',
+        severity: 'warning',
+      },
+    ]);
+  });
+
+  it('should report malformed and not checksummed addresses', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          contract: {
+            deployments: {
+              mainnet: { address: 'dadsdas' },
+              rinkeby: { address: address.toLowerCase() },
+              ropsten: {},
+            },
+          },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.contract.deployments.mainnet.address',
+        message: 'Not a valid address: dadsdas',
+        severity: 'error',
+      },
+      {
+        path: 'collection.contract.deployments.rinkeby.address',
+        message: `Address is not checksummed, expected ${address}`,
+        severity: 'warning',
+      },
+      {
+        path: 'collection.contract.deployments.ropsten.address',
+        message: 'Not a valid address: undefined',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should report missing deployments', () => {
+    expect(validate({ collection: { tokens: {} } })).toEqual([
+      {
+        path: 'collection.contract.deployments',
+        message: 'Collection has no contract deployments',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should report unknown token standards and exists methods', () => {
+    const { collection } = validDatabase;
+    expect(
+      validate({
+        collection: {
+          ...collection,
+          contract: { ...collection.contract, standard: 'ERC20' },
+        },
+        collection721: {
+          ...collection,
+          contract: { ...collection.contract, existsMethod: 'exists' },
+        },
+        collection1155: {
+          ...collection,
+          contract: {
+            ...collection.contract,
+            standard: 'ERC1155',
+            existsMethod: 'balanceOf',
+          },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.contract.standard',
+        message: 'Contract standard must be one of ERC721 or ERC1155',
+        severity: 'error',
+      },
+      {
+        path: 'collection721.contract.existsMethod',
+        message: 'existsMethod is only used by ERC1155 contracts',
+        severity: 'warning',
+      },
+      {
+        path: 'collection1155.contract.existsMethod',
+        message: 'existsMethod must be one of totalSupply or exists',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should report invalid contract state mappings', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          contractState: {
+            level: {
+              signature: 'function getLevel(uint256) view returns (uint256)',
+              variants: 'stages',
+            },
+            staked: { signature: 'isStaked', attribute: 5 },
+            unused: { signature: 'function unused() view returns (bool)' },
+          },
+        },
+      } as unknown as TokenDatabase)
+    ).toEqual([
+      {
+        path: 'collection.contractState.staked.signature',
+        message:
+          'signature must be a function signature, e.g. function getLevel(uint256) view returns (uint256)',
+        severity: 'error',
+      },
+      {
+        path: 'collection.contractState.staked.attribute',
+        message: 'attribute must be a string',
+        severity: 'error',
+      },
+      {
+        path: 'collection.contractState.unused',
+        message:
+          'Contract state is neither served as an attribute nor selects variants',
+        severity: 'warning',
+      },
+    ]);
+  });
+
+  it('should report reserved tokens missing from tokens, and the missing placeholder', () => {
+    const { placeholder, ...tokens } = validDatabase.collection.tokens;
+    expect(placeholder).toBeDefined();
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          reservedTokens: [1, 7],
+          tokens,
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.reservedTokens[1]',
+        message: 'Reserved token 7 is not in tokens',
+        severity: 'error',
+      },
+      {
+        path: 'collection.tokens.placeholder',
+        message:
+          'A placeholder token or a placeholder variant selecting every token is required when the collection is revealed later or reservedTokens is set',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should report wrong revealTime and reservedTokens types', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          revealTime: '2021-01-01',
+          reservedTokens: 1,
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.revealTime',
+        message: 'revealTime must be a timestamp in milliseconds',
+        severity: 'error',
+      },
+      {
+        path: 'collection.reservedTokens',
+        message: 'reservedTokens must be an array',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should report unknown existence strategies, and strategies unfit for ERC1155', () => {
+    const { collection } = validDatabase;
+    expect(
+      validate({
+        collection: { ...collection, existence: { type: 'balanceOf' } },
+        collection1155: {
+          ...collection,
+          existence: { type: 'totalSupply' },
+          contract: { ...collection.contract, standard: 'ERC1155' },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.existence.type',
+        message:
+          'Existence type must be one of token, totalSupply or transferEvents',
+        severity: 'error',
+      },
+      {
+        path: 'collection1155.existence.type',
+        message: 'ERC1155 tokens can only be checked by token',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should require the start block of the deployments to index Transfer events', () => {
+    const { collection } = validDatabase;
+    expect(
+      validate({
+        collection: { ...collection, existence: { type: 'transferEvents' } },
+      })
+    ).toEqual([
+      {
+        path: 'collection.contract.deployments.mainnet.startBlock',
+        message:
+          'startBlock, the block the contract was deployed at, is required to query Transfer events',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should require the start block of the deployments to find the reveal event', () => {
+    const { collection } = validDatabase;
+    expect(
+      validate({
+        collection: {
+          ...collection,
+          reveal: { type: 'event', event: 'Reveal()' },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.contract.deployments.mainnet.startBlock',
+        message:
+          'startBlock, the block the contract was deployed at, is required to query the reveal event',
+        severity: 'error',
+      },
+    ]);
+    expect(
+      validate({
+        collection: {
+          ...collection,
+          reveal: { type: 'event', event: 'Reveal()' },
+          contract: {
+            ...collection.contract,
+            deployments: { mainnet: { address, startBlock: 1 } },
+          },
+        },
+      })
+    ).toEqual([]);
+  });
+
+  it('should report invalid token id bounds', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          minTokenId: 1,
+          maxSupply: -1.5,
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.maxSupply',
+        message: 'maxSupply must be a token id',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should accept string token ids, and report invalid ones', () => {
+    const id = (2n ** 255n).toString();
+    const { collection } = validDatabase;
+    expect(
+      validate({
+        collection: {
+          ...collection,
+          reservedTokens: [id, 'abc', { from: id, to: '1' }],
+          tokens: { ...collection.tokens, [id]: collection.tokens[1] },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.reservedTokens[1]',
+        message: 'Token selector must be an object',
+        severity: 'error',
+      },
+      {
+        path: 'collection.reservedTokens[2]',
+        message: 'from must not be greater than to',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should report metadata shape problems', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          tokens: {
+            ...validDatabase.collection.tokens,
+            0: {
+              name: 0,
+              image: 'ipfs://Qm0',
+              attributes: [
+                'Gold',
+                { trait_type: 'Background' },
+                { trait_type: 'Level', value: 'two', display_type: 'number' },
+              ],
+            },
+            1: 'name1',
+          },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.tokens[0].name',
+        message: 'name must be a string',
+        severity: 'error',
+      },
+      {
+        path: 'collection.tokens[0].description',
+        message: 'Missing description',
+        severity: 'warning',
+      },
+      {
+        path: 'collection.tokens[0].attributes[0]',
+        message: 'Attribute must be an object',
+        severity: 'error',
+      },
+      {
+        path: 'collection.tokens[0].attributes[1].value',
+        message: 'Attribute has no value',
+        severity: 'error',
+      },
+      {
+        path: 'collection.tokens[0].attributes[2].value',
+        message: 'Attribute with display_type number must have a numeric value',
+        severity: 'error',
+      },
+      {
+        path: 'collection.tokens[1]',
+        message: 'Token metadata must be an object',
+        severity: 'error',
+      },
+    ]);
+  });
+});
+
+describe('validateDatabase collection metadata', () => {
+  it('should accept valid collection metadata', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          collection: {
+            name: 'Collection',
+            seller_fee_basis_points: 500,
+            fee_recipient: address,
+            networks: { mainnet: { seller_fee_basis_points: 250 } },
+          },
+        },
+      })
+    ).toEqual([]);
+  });
+
+  it('should report invalid fees, recipients and unknown networks', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          collection: {
+            name: 'Collection',
+            seller_fee_basis_points: 10001,
+            networks: { rinkeby: { fee_recipient: 'lol' } },
+          },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.collection.networks.rinkeby',
+        message: 'Collection is not deployed to network rinkeby',
+        severity: 'warning',
+      },
+      {
+        path: 'collection.collection.seller_fee_basis_points',
+        message:
+          'seller_fee_basis_points must be an integer between 0 and 10000',
+        severity: 'error',
+      },
+      {
+        path: 'collection.collection.networks.rinkeby.fee_recipient',
+        message: 'Not a valid address: lol',
+        severity: 'error',
+      },
+    ]);
+  });
+});
+
+describe('validateDatabase provenance', () => {
+  it('should report provenance hash mismatches and invalid starting indexes', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          provenance: {
+            maxSupply: 2,
+            startingIndex: 2,
+            hash: `0x${'0'.repeat(64)}`,
+          },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.provenance.startingIndex',
+        message: 'startingIndex must be an integer between 0 and maxSupply - 1',
+        severity: 'error',
+      },
+      {
+        path: 'collection.provenance.hash',
+        message: expect.stringContaining('Provenance hash mismatch'),
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should report an invalid max supply', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          provenance: { maxSupply: 0 },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.provenance.maxSupply',
+        message: 'maxSupply must be a positive integer',
+        severity: 'error',
+      },
+    ]);
+  });
+});
+
+describe('validateDatabase reveal phases', () => {
+  it('should accept valid phases and reserved ranges', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          reservedTokens: [1, { from: 5, to: 9 }],
+          revealPhases: [
+            { tokens: [0], revealed: false, placeholder: 'placeholder' },
+            { from: 1, to: 4, revealTime: 2000 },
+          ],
+        },
+      })
+    ).toEqual([]);
+  });
+
+  it('should report invalid phases and reserved ranges', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          reservedTokens: [{ from: 9, to: 5 }],
+          revealPhases: [
+            { revealed: 'yes', placeholder: 'mystery' },
+            { from: 1.5, revealTime: 'tomorrow' },
+          ],
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.reservedTokens[0]',
+        message: 'from must not be greater than to',
+        severity: 'error',
+      },
+      {
+        path: 'collection.revealPhases[0]',
+        message: 'Selects no tokens, set tokens, from or to',
+        severity: 'error',
+      },
+      {
+        path: 'collection.revealPhases[0].revealed',
+        message: 'revealed must be a boolean',
+        severity: 'error',
+      },
+      {
+        path: 'collection.revealPhases[0].placeholder',
+        message: 'Placeholder mystery is not in placeholders or tokens',
+        severity: 'error',
+      },
+      {
+        path: 'collection.revealPhases[1].from',
+        message: 'from must be a token id',
+        severity: 'error',
+      },
+      {
+        path: 'collection.revealPhases[1].revealTime',
+        message: 'revealTime must be a timestamp in milliseconds',
+        severity: 'error',
+      },
+    ]);
+  });
+});
+
+describe('validateDatabase placeholder variants', () => {
+  it('should accept a default variant instead of the placeholder token', () => {
+    const { placeholder, ...tokens } = validDatabase.collection.tokens;
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          placeholders: {
+            gold: { from: 0, to: 9, metadata: placeholder },
+            bronze: { metadata: placeholder },
+          },
+          tokens,
+        },
+      })
+    ).toEqual([]);
+  });
+
+  it('should report invalid variants, and require a default', () => {
+    const { placeholder, ...tokens } = validDatabase.collection.tokens;
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          placeholders: {
+            gold: { from: 0, to: 9, metadata: placeholder },
+            silver: { trait: 'Silver', metadata: 'Silver Box' },
+          },
+          tokens,
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.placeholders.silver.trait',
+        message: 'trait must be an object with a trait_type and a value',
+        severity: 'error',
+      },
+      {
+        path: 'collection.placeholders.silver.metadata',
+        message: 'Token metadata must be an object',
+        severity: 'error',
+      },
+      {
+        path: 'collection.tokens.placeholder',
+        message:
+          'A placeholder token or a placeholder variant selecting every token is required when the collection is revealed later or reservedTokens is set',
+        severity: 'error',
+      },
+    ]);
+  });
+
+  it('should reject trait selectors on collections with a provenance', () => {
+    const { placeholder } = validDatabase.collection.tokens;
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          provenance: { maxSupply: 2 },
+          placeholders: {
+            silver: {
+              trait: { trait_type: 'Tier', value: 'Silver' },
+              metadata: placeholder,
+            },
+          },
+        },
+      })
+    ).toEqual([
+      {
+        path: 'collection.placeholders.silver.trait',
+        message:
+          'trait can not select placeholders of collections with a provenance',
+        severity: 'error',
+      },
+    ]);
+  });
+});
+
+describe('validateDatabase defaults', () => {
+  it('should validate tokens with the defaults applied', () => {
+    expect(
+      validate({
+        collection: {
+          ...validDatabase.collection,
+          defaults: { description: 'description', image: 'ipfs://Qm' },
+          tokens: {
+            0: { name: 'name0' },
+            1: { name: 'name1' },
+            placeholder: { name: 'placeholder' },
+          },
+        },
+      })
+    ).toEqual([]);
+  });
+});
+
+describe('ensureValidDatabase', () => {
+  const withWarning = new InMemoryMetadataStore({
+    collection: {
+      ...validDatabase.collection,
+      contract: {
+        deployments: { mainnet: { address: address.toLowerCase() } },
+      },
+    },
+  });
+  const withError = new InMemoryMetadataStore({
+    collection: {
+      ...validDatabase.collection,
+      reservedTokens: [7],
+    },
+  });
+
+  it('should only log warnings in lenient mode', () => {
+    const consoleWarn = jest
+      .spyOn(console, 'warn')
+      .mockImplementation(() => undefined);
+
+    expect(() => ensureValidDatabase(withWarning, 'lenient')).not.toThrow();
+    expect(consoleWarn).toHaveBeenCalledTimes(1);
+    consoleWarn.mockRestore();
+  });
+
+  it('should throw on errors in lenient mode', () => {
+    expect(() => ensureValidDatabase(withError, 'lenient')).toThrow(
+      DatabaseValidationError
+    );
+  });
+
+  it('should throw on warnings in strict mode, listing the issues', () => {
+    let error: DatabaseValidationError | undefined;
+    try {
+      ensureValidDatabase(withWarning, 'strict');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(DatabaseValidationError);
+    expect(error?.issues).toHaveLength(1);
+    expect(error?.message).toContain(
+      'collection.contract.deployments.mainnet.address'
+    );
+  });
+
+  it('should not validate if turned off', () => {
+    expect(() => ensureValidDatabase(withError, 'off')).not.toThrow();
+  });
+});